@@ -16,11 +16,12 @@ import {
   Color,
   BackSide,
   FogExp2,
-  Raycaster,
   Box3,
   LineBasicMaterial,
   EdgesGeometry,
   LineSegments,
+  PlaneGeometry,
+  DoubleSide,
 } from 'three';
 import {
   View,
@@ -29,8 +30,101 @@ import {
   Dimensions,
   TouchableOpacity,
   Image,
+  AppState,
 } from 'react-native';
 import { Joystick } from './components/Joystick';
+import {
+  CHUNK_SIZE,
+  WORLD_HEIGHT,
+  WORLD_MIN_Y,
+  DEFAULT_VIEW_DISTANCE,
+  CHUNK_LOADS_PER_FRAME,
+  CHUNK_MESHES_PER_FRAME,
+  voxelIndex,
+  worldToLocal,
+  isInsideWorldHeight,
+  chunkKey,
+  worldToChunk,
+  chunkDistance,
+  getChunksInRange,
+} from './game/chunks';
+import { hashSeed } from './game/random';
+import {
+  AIR,
+  BlockType,
+  isBlockType,
+  getBlockId,
+  getBlockType,
+  getBlockById,
+  getBlockDefinition,
+} from './game/blocks';
+import { buildChunkGeometry } from './game/mesher';
+import { createVoxelStore } from './game/voxels';
+import { createLightStore } from './game/lighting';
+import { createFluidSimulator, isFluid } from './game/fluids';
+import { createBlockUpdates } from './game/blockUpdates';
+import { createBlockEdits } from './game/edits';
+import { BlockWorld } from './game/behaviours';
+import { raycastVoxels } from './game/raycast';
+import { moveBox } from './game/physics';
+import { GameLoop, createGameLoop } from './game/loop';
+import {
+  ITEM_TYPES,
+  ItemStack,
+  getBreakTime,
+  getMaxStackSize,
+} from './game/items';
+import {
+  Inventory,
+  addItems,
+  createInventory,
+  removeItems,
+  restoreInventory,
+} from './game/inventory';
+import {
+  DEFAULT_DROP_MODE,
+  ItemDrop,
+  canPickUp,
+  createItemDrop,
+  disposeItemDrop,
+  rollDrops,
+  updateItemDrop,
+} from './game/drops';
+import {
+  CRACK_STAGES,
+  DEFAULT_RESOURCE_PACK,
+  TextureAtlas,
+  applyChunkShader,
+  getResourcePack,
+  loadTextureAtlas,
+} from './game/textures';
+import {
+  TerrainConfig,
+  DEFAULT_TERRAIN_CONFIG,
+  generateTerrain,
+} from './game/terrain';
+import {
+  WorldSave,
+  SavedPlayer,
+  AUTOSAVE_INTERVAL,
+  saveWorld,
+  loadWorld,
+} from './game/save';
+import { WorldInfo, markWorldPlayed, setWorldThumbnail } from './game/worlds';
+import { GameModeDefinition, getGameMode } from './game/modes';
+import { START_TIME, getSkyState, getTimeOfDay } from './game/daylight';
+import {
+  MAX_HEALTH,
+  VOID_DEPTH,
+  clampHealth,
+  getFallDamage,
+} from './game/health';
+import { GameSettings, SettingsPanel } from './components/SettingsPanel';
+import { WorldMenu } from './components/WorldMenu';
+import { Hotbar } from './components/Hotbar';
+import { InventoryScreen } from './components/InventoryScreen';
+import { CraftingScreen } from './components/CraftingScreen';
+import { HealthBar } from './components/HealthBar';
 import {
   GestureHandlerRootView,
   Gesture,
@@ -53,35 +147,139 @@ import Animated, {
 } from 'react-native-reanimated';
 
 // Constants for our world
-const WORLD_SIZE = 10;
 const BLOCK_SIZE = 1;
+// Velocities and accelerations are per game loop tick (FIXED_TIMESTEP)
 const GRAVITY = 0.01;
 const JUMP_FORCE = 0.15;
+const FLY_SPEED = 0.1;
 const PLAYER_HEIGHT = 1.6;
 const PLAYER_WIDTH = 0.6;
 
-// Define block types
-type BlockType = 'grass' | 'dirt' | 'stone' | 'bedrock' | 'wood' | 'leaves';
+// Swimming: water pushes back against most of gravity, slows every movement
+// and lets the player rise by holding jump
+const WATER_BUOYANCY = 0.008;
+const WATER_DRAG = 0.9;
+const WATER_MOVE_SCALE = 0.5;
+const SWIM_SPEED = 0.06;
+
+// Fog density above and under water
+const FOG_DENSITY = 0.01;
+const UNDERWATER_FOG_DENSITY = 0.15;
+const UNDERWATER_FOG_COLOR = new Color(0x1f4f8f);
+
+// How far away the player can reach blocks
+const REACH_DISTANCE = 6;
+
+// Distance of the sun and moon from the camera, inside the sky dome
+const SKY_DISTANCE = 400;
+
+// Starting stock for a new world: a stack of every item in creative, nothing
+// in survival
+const createStartingInventory = (gameMode: GameModeDefinition) =>
+  gameMode.unlimitedItems
+    ? ITEM_TYPES.reduce(
+        (inventory, type) =>
+          addItems(inventory, { type, count: getMaxStackSize(type) }).inventory,
+        createInventory()
+      )
+    : createInventory();
 
 interface Block {
   position: Vector3;
   type: BlockType;
-  mesh: Mesh;
-  highlightEdges?: LineSegments;
 }
 
-export default function App() {
+interface Chunk {
+  cx: number;
+  cz: number;
+  group: Group;
+  terrain: Mesh | null;
+  decorations: Mesh | null;
+  // Set when a neighbouring chunk changed and border faces may be stale
+  needsMesh: boolean;
+}
+
+interface GameProps {
+  world: WorldInfo;
+  onExit: () => void;
+}
+
+function Game({ world, onExit }: GameProps) {
   const worldRef = React.useRef<Group>(new Group());
   const cameraRef = React.useRef<PerspectiveCamera | null>(null);
   const eulerRef = React.useRef(new Euler(0, 0, 0, 'YXZ')); // YXZ order is crucial for FPS controls
-  const moveSpeed = 0.1;
+  const moveSpeed = 0.1; // Blocks per tick
   const rotateSpeed = 0.05; // Adjusted for better control
 
-  // Physics state
+  // Physics state; the camera follows the player position between ticks
+  const playerPosition = React.useRef(new Vector3());
+  const previousPlayerPosition = React.useRef(new Vector3());
   const playerVelocity = React.useRef(new Vector3(0, 0, 0));
   const playerOnGround = React.useRef(false);
-  const blocks = React.useRef<Block[]>([]);
+  // Only ever set in game modes that allow flight
+  const playerFlying = React.useRef(false);
+  const [isFlying, setIsFlying] = React.useState(false);
+  const voxelStore = React.useRef(createVoxelStore());
+  const lightStore = React.useRef(createLightStore(voxelStore.current));
+  const fluidSimulator = React.useRef(createFluidSimulator(voxelStore.current));
+  const blockUpdates = React.useRef(createBlockUpdates());
   const playerCollider = React.useRef(new Box3());
+  // Health in half hearts; the ref is what the game loop reads
+  const playerHealth = React.useRef(MAX_HEALTH);
+  const [health, setHealth] = React.useState(MAX_HEALTH);
+  const playerDead = React.useRef(false);
+  const [isDead, setIsDead] = React.useState(false);
+  // Where the player respawns, found on the ground the first time a world
+  // is entered
+  const spawnPoint = React.useRef<Vector3 | null>(null);
+
+  // Ticks since the world was created, saved with the world. Gameplay reads it
+  // through blockWorld and turns it into the time of day, the day count and
+  // night with the helpers in game/daylight.
+  const worldTime = React.useRef(START_TIME);
+  // Sky dome with the sun and moon, and the lights that follow them
+  const sky = React.useRef<{
+    group: Group;
+    dome: Mesh<BoxGeometry, MeshBasicMaterial>;
+    sun: Mesh;
+    moon: Mesh;
+  } | null>(null);
+  const skyLights = React.useRef<{
+    ambient: AmbientLight;
+    sun: DirectionalLight;
+    moon: DirectionalLight;
+    fill: DirectionalLight;
+    bounce: DirectionalLight;
+  } | null>(null);
+  // Strength of sky light on blocks, shared with the chunk shaders
+  const daylight = React.useRef({ value: 1 });
+
+  // Chunk streaming state
+  const chunks = React.useRef(new Map<string, Chunk>());
+  const viewDistance = React.useRef(DEFAULT_VIEW_DISTANCE);
+  // Blocks changed by the player or by block behaviours, replayed when a chunk
+  // reloads
+  const blockEdits = React.useRef(createBlockEdits());
+
+  // World seed: the text shown to the player and the hash driving generation
+  const seedText = world.seed;
+  // Fixed for the lifetime of a world
+  const gameMode = getGameMode(world.gameMode);
+  const worldSeed = React.useRef(hashSeed(seedText));
+  const terrainConfig = React.useRef<TerrainConfig>(DEFAULT_TERRAIN_CONFIG);
+  const [settingsVisible, setSettingsVisible] = React.useState(false);
+
+  // Persistence state
+  const [isWorldLoaded, setIsWorldLoaded] = React.useState(false);
+  const savedPlayer = React.useRef<SavedPlayer | null>(null);
+
+  // GL context and game loop, kept so the loop can stop on exit
+  const glRef = React.useRef<ExpoWebGLRenderingContext | null>(null);
+  const gameLoopRef = React.useRef<GameLoop | null>(null);
+
+  React.useEffect(() => {
+    return () => gameLoopRef.current?.stop();
+  }, []);
 
   // Add jump to movement state
   const moveState = React.useRef({
@@ -92,29 +290,37 @@ export default function App() {
     rotateX: 0,
     rotateY: 0,
     jump: false,
+    descend: false,
   });
 
-  // Texture references
-  const textures = React.useRef<{
-    grassTop?: any;
-    grassSide?: any;
-    dirt?: any;
-    stone?: any;
-    bedrock?: any;
-  }>({});
-
-  // Block colors (as fallback)
-  const blockColors = {
-    grass: 0x4aca28, // Brighter green for grass top
-    dirt: 0x8b5a2b, // Richer brown for dirt
-    stone: 0x888888, // Medium gray for stone
-    bedrock: 0x333333, // Dark gray for bedrock
-    wood: 0x8b4513, // Brown for wood
-    leaves: 0x2e8b57, // Sea green for leaves
-  };
+  // Block textures from the selected resource pack, null until loaded
+  const resourcePack = React.useRef(DEFAULT_RESOURCE_PACK);
+  const textureAtlas = React.useRef<TextureAtlas | null>(null);
+
+  // Items lying in the world, and whether broken blocks leave them there
+  const itemDrops = React.useRef<ItemDrop[]>([]);
+  const dropMode = React.useRef(DEFAULT_DROP_MODE);
+
+  // Shared materials for every chunk, created with the GL context
+  const chunkMaterials = React.useRef<{
+    terrain: MeshStandardMaterial[];
+    decorations: MeshStandardMaterial;
+  } | null>(null);
 
   // Add state for highlighted block
   const highlightedBlockRef = React.useRef<Block | null>(null);
+  const highlightEdges = React.useRef<LineSegments | null>(null);
+
+  // Block being broken, and the crack overlay drawn on it
+  const miningRef = React.useRef<{
+    position: Vector3;
+    startedAt: number;
+    duration: number;
+  } | null>(null);
+  const crackOverlay = React.useRef<Mesh<
+    BoxGeometry,
+    MeshBasicMaterial
+  > | null>(null);
 
   // Add state for touch indicator and destruction progress
   const touchX = useSharedValue(0);
@@ -126,18 +332,100 @@ export default function App() {
   // Add state to track if we're currently panning for camera control
   const isPanning = useSharedValue(false);
 
-  // Add state for inventory and selected block
-  const [inventory, setInventory] = React.useState<
-    Array<{ type: BlockType; count: number }>
-  >([
-    { type: 'grass', count: 64 },
-    { type: 'dirt', count: 64 },
-    { type: 'stone', count: 64 },
-    { type: 'bedrock', count: 64 },
-    { type: 'wood', count: 64 },
-    { type: 'leaves', count: 64 },
-  ]);
-  const [selectedBlockIndex, setSelectedBlockIndex] = React.useState(0);
+  // Inventory slots and the selected hotbar slot. The ref mirrors the state
+  // for code running in the game loop, which only sees the first render.
+  const [inventory, setInventory] = React.useState<Inventory>(() =>
+    createStartingInventory(gameMode)
+  );
+  const inventoryRef = React.useRef(inventory);
+  const [selectedSlot, setSelectedSlot] = React.useState(0);
+  const [inventoryVisible, setInventoryVisible] = React.useState(false);
+  const [craftingVisible, setCraftingVisible] = React.useState(false);
+
+  const updateInventory = (next: Inventory) => {
+    inventoryRef.current = next;
+    setInventory(next);
+  };
+
+  // Restore a saved world before the GL context starts generating chunks
+  const applySave = (save: WorldSave) => {
+    blockEdits.current = createBlockEdits(save.edits);
+
+    savedPlayer.current = save.player;
+    if (save.spawn) {
+      spawnPoint.current = new Vector3(
+        save.spawn.x,
+        save.spawn.y,
+        save.spawn.z
+      );
+    }
+    setPlayerHealth(clampHealth(save.player.health));
+    worldTime.current = save.time;
+
+    updateInventory(restoreInventory(save.inventory));
+  };
+
+  const persistWorld = () => {
+    // Nothing to save before the player has spawned
+    if (!cameraRef.current) return;
+
+    // A dead player comes back at the spawn point with full health
+    const position =
+      playerDead.current && spawnPoint.current
+        ? spawnPoint.current
+        : playerPosition.current;
+    const spawn = spawnPoint.current;
+
+    return saveWorld(world.id, {
+      seed: seedText,
+      edits: blockEdits.current.toRecord(),
+      player: {
+        position: { x: position.x, y: position.y, z: position.z },
+        rotation: { x: eulerRef.current.x, y: eulerRef.current.y },
+        health: playerDead.current ? MAX_HEALTH : playerHealth.current,
+      },
+      spawn: spawn && { x: spawn.x, y: spawn.y, z: spawn.z },
+      time: worldTime.current,
+      inventory,
+    });
+  };
+
+  // Intervals and AppState listeners outlive renders, so they go through a
+  // ref that always points at the latest persistWorld
+  const persistWorldRef = React.useRef(persistWorld);
+  persistWorldRef.current = persistWorld;
+
+  React.useEffect(() => {
+    markWorldPlayed(world.id);
+    loadWorld(world.id).then((save) => {
+      if (save) applySave(save);
+      setIsWorldLoaded(true);
+    });
+  }, []);
+
+  // Autosave periodically and whenever the app leaves the foreground, which
+  // also pauses the game until it comes back
+  React.useEffect(() => {
+    if (!isWorldLoaded) return;
+
+    const interval = setInterval(
+      () => persistWorldRef.current(),
+      AUTOSAVE_INTERVAL
+    );
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        gameLoopRef.current?.resume();
+      } else {
+        gameLoopRef.current?.pause();
+        persistWorldRef.current();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [isWorldLoaded]);
 
   // Replace the existing panResponder with separate movement and camera controls
   const handleMovementJoystick = (x: number, y: number) => {
@@ -165,20 +453,59 @@ export default function App() {
       rotateX: 0,
       rotateY: 0,
       jump: false,
+      descend: false,
     };
   };
 
   const handleJump = (value: boolean) => {
     moveState.current.jump = value;
 
-    if (playerOnGround.current && value) {
+    if (playerOnGround.current && value && !playerFlying.current) {
       playerVelocity.current.y = JUMP_FORCE;
       playerOnGround.current = false;
     }
   };
 
+  const handleDescend = (value: boolean) => {
+    moveState.current.descend = value;
+  };
+
+  const setFlying = (flying: boolean) => {
+    playerFlying.current = flying && gameMode.canFly;
+    playerVelocity.current.y = 0;
+    setIsFlying(playerFlying.current);
+  };
+
+  const setPlayerHealth = (value: number) => {
+    playerHealth.current = value;
+    setHealth(value);
+  };
+
+  // Take away health in game modes where the player can be hurt
+  const damagePlayer = (amount: number) => {
+    if (amount <= 0 || !gameMode.takesDamage || playerDead.current) return;
+
+    setPlayerHealth(Math.max(0, playerHealth.current - amount));
+    if (playerHealth.current === 0) killPlayer();
+  };
+
+  // Stop the player where they are and show the death screen
+  const killPlayer = () => {
+    playerDead.current = true;
+    setIsDead(true);
+    handleJoystickRelease();
+    cancelDestructionProgress();
+  };
+
+  const respawnPlayer = () => {
+    setPlayerHealth(MAX_HEALTH);
+    spawnPlayer();
+    playerDead.current = false;
+    setIsDead(false);
+  };
+
   const updatePlayerPosition = () => {
-    if (!cameraRef.current) return;
+    if (!cameraRef.current || playerDead.current) return;
 
     const camera = cameraRef.current;
 
@@ -223,633 +550,573 @@ export default function App() {
       moveDirection.add(right);
     }
 
+    const position = playerPosition.current;
+    const inWater = isPlayerInWater(position.x, position.y, position.z);
+
     if (moveDirection.length() > 0) {
-      moveDirection.normalize().multiplyScalar(moveSpeed);
+      moveDirection
+        .normalize()
+        .multiplyScalar(inWater ? moveSpeed * WATER_MOVE_SCALE : moveSpeed);
     }
 
-    // Apply gravity
-    if (!playerOnGround.current) {
+    if (playerFlying.current) {
+      // Hover in place, rising or sinking while the buttons are held
+      playerVelocity.current.y =
+        (Number(moveState.current.jump) - Number(moveState.current.descend)) *
+        FLY_SPEED;
+    } else if (inWater) {
+      // Sink slowly, or swim up while jump is held
+      playerVelocity.current.y =
+        (playerVelocity.current.y - GRAVITY + WATER_BUOYANCY) * WATER_DRAG;
+      if (moveState.current.jump) {
+        playerVelocity.current.y = Math.max(
+          playerVelocity.current.y,
+          SWIM_SPEED
+        );
+      }
+    } else {
+      // Apply gravity; standing on the ground cancels it again below
       playerVelocity.current.y -= GRAVITY;
-    }
 
-    // Handle jump
-    if (moveState.current.jump && playerOnGround.current) {
-      playerVelocity.current.y = JUMP_FORCE;
-      playerOnGround.current = false;
+      // Handle jump
+      if (moveState.current.jump && playerOnGround.current) {
+        playerVelocity.current.y = JUMP_FORCE;
+        playerOnGround.current = false;
+      }
     }
 
-    // Update velocity and position
-    const newPosition = camera.position.clone();
-    newPosition.add(moveDirection);
-    newPosition.y += playerVelocity.current.y;
-
-    // Update player collider
+    // The player's box reaches from the feet up to the eyes
+    previousPlayerPosition.current.copy(position);
     playerCollider.current.setFromCenterAndSize(
-      new Vector3(
-        newPosition.x,
-        newPosition.y - PLAYER_HEIGHT / 2,
-        newPosition.z
-      ),
+      new Vector3(position.x, position.y - PLAYER_HEIGHT / 2, position.z),
       new Vector3(PLAYER_WIDTH, PLAYER_HEIGHT, PLAYER_WIDTH)
     );
 
-    // Check collisions with blocks
-    let collided = false;
-    let onGround = false;
-
-    for (const block of blocks.current) {
-      const blockBox = new Box3().setFromObject(block.mesh);
-
-      if (playerCollider.current.intersectsBox(blockBox)) {
-        // Handle vertical collision (ground)
-        if (
-          playerVelocity.current.y <= 0 &&
-          camera.position.y > block.position.y + BLOCK_SIZE
-        ) {
-          newPosition.y = block.position.y + BLOCK_SIZE + PLAYER_HEIGHT / 2;
-          playerVelocity.current.y = 0;
-          onGround = true;
-        } else {
-          // Handle horizontal collision
-          collided = true;
-        }
-      }
+    // Resolve each axis separately so the player slides along walls
+    const collision = moveBox(
+      playerCollider.current,
+      new Vector3(moveDirection.x, playerVelocity.current.y, moveDirection.z),
+      isSolidAt
+    );
 
-      // Check if standing on a block
-      const groundRay = new Raycaster(
-        camera.position,
-        new Vector3(0, -1, 0),
-        0,
-        PLAYER_HEIGHT / 2 + 0.1
-      );
+    // Landing hurts after a long fall, unless water breaks it. A fast fall
+    // can enter shallow water and land in the same tick, so the landing spot
+    // is checked too.
+    const landing = playerCollider.current.getCenter(new Vector3());
+    if (
+      collision.onGround &&
+      !inWater &&
+      !isPlayerInWater(landing.x, playerCollider.current.max.y, landing.z)
+    ) {
+      damagePlayer(getFallDamage(-playerVelocity.current.y, GRAVITY));
+    }
 
-      const intersects = groundRay.intersectObject(block.mesh);
-      if (intersects.length > 0) {
-        onGround = true;
-      }
+    // Stop falling on landing, and stop rising when bumping a ceiling
+    if (collision.y) {
+      playerVelocity.current.y = 0;
+    }
+    playerOnGround.current = collision.onGround;
+
+    // Sinking onto the ground ends flight
+    if (playerFlying.current && collision.onGround) {
+      setFlying(false);
     }
 
-    playerOnGround.current = onGround;
+    const center = playerCollider.current.getCenter(new Vector3());
+    position.set(center.x, playerCollider.current.max.y, center.z);
 
-    // Apply position if no collision
-    if (!collided) {
-      camera.position.copy(newPosition);
-    } else {
-      // Only apply Y position for vertical movement
-      camera.position.y = newPosition.y;
+    // Falling into the void is fatal in every game mode
+    if (position.y < terrainConfig.current.bedrockLevel - VOID_DEPTH) {
+      killPlayer();
     }
   };
 
-  // Function to create a pattern on blocks
-  const createBlockPattern = (type: BlockType, mesh: Mesh) => {
-    // Skip patterns for some blocks to maintain variety
-    if (Math.random() > 0.3) return;
-
-    const patternGeometry = new BoxGeometry(
-      BLOCK_SIZE * 0.2,
-      BLOCK_SIZE * 0.1,
-      BLOCK_SIZE * 0.2
+  // Whether the block at a position stops the player
+  const isSolidAt = (x: number, y: number, z: number) =>
+    getBlockById(voxelStore.current.getBlock(x, y, z))?.solid ?? false;
+
+  const isFluidAt = (x: number, y: number, z: number) =>
+    isFluid(voxelStore.current.getBlock(x, y, z));
+
+  // The player swims while their feet or head are in water; y is eye height
+  const isPlayerInWater = (x: number, y: number, z: number) =>
+    isFluidAt(x, y - PLAYER_HEIGHT + 0.1, z) || isFluidAt(x, y, z);
+
+  // Rebuild the meshes of a chunk from its voxels
+  const buildChunkMesh = (chunk: Chunk) => {
+    const materials = chunkMaterials.current;
+    const voxels = voxelStore.current.getChunk(chunk.cx, chunk.cz);
+    if (!materials || !voxels) return;
+
+    const geometry = buildChunkGeometry(
+      chunk.cx,
+      chunk.cz,
+      voxels,
+      voxelStore.current.getBlock,
+      worldSeed.current,
+      textureAtlas.current,
+      lightStore.current.getLight
     );
 
-    let patternMaterial;
-    let count = 0;
-
-    switch (type) {
-      case 'grass':
-        // Add small grass tufts on top
-        patternMaterial = new MeshStandardMaterial({
-          color: 0x66dd44,
-          roughness: 0.9,
-          metalness: 0.0,
-        });
-        count = Math.floor(Math.random() * 3) + 1;
+    if (chunk.terrain) {
+      chunk.group.remove(chunk.terrain);
+      chunk.terrain.geometry.dispose();
+    }
+    if (chunk.decorations) {
+      chunk.group.remove(chunk.decorations);
+      chunk.decorations.geometry.dispose();
+    }
 
-        break;
+    chunk.terrain = new Mesh(geometry.terrain, materials.terrain);
+    chunk.group.add(chunk.terrain);
 
-      case 'stone':
-        // Add small rock details
-        patternMaterial = new MeshStandardMaterial({
-          color: 0x777777,
-          roughness: 0.8,
-          metalness: 0.2,
-        });
+    chunk.decorations = geometry.decorations
+      ? new Mesh(geometry.decorations, materials.decorations)
+      : null;
+    if (chunk.decorations) chunk.group.add(chunk.decorations);
 
-        if (Math.random() > 0.7) {
-          const rock = new Mesh(patternGeometry, patternMaterial);
-          // Position on top or side of block
-          const side = Math.floor(Math.random() * 6);
-
-          if (side === 0) {
-            // top
-            rock.position.set(
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              BLOCK_SIZE * 0.5,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6
-            );
-          } else if (side === 1) {
-            // bottom
-            rock.position.set(
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              -BLOCK_SIZE * 0.5,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6
-            );
-          } else if (side === 2) {
-            // front
-            rock.position.set(
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              BLOCK_SIZE * 0.5
-            );
-          } else if (side === 3) {
-            // back
-            rock.position.set(
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              -BLOCK_SIZE * 0.5
-            );
-          } else if (side === 4) {
-            // right
-            rock.position.set(
-              BLOCK_SIZE * 0.5,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6
-            );
-          } else {
-            // left
-            rock.position.set(
-              -BLOCK_SIZE * 0.5,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.6
-            );
-          }
-
-          rock.scale.set(
-            0.5 + Math.random() * 0.5,
-            0.3 + Math.random() * 0.3,
-            0.5 + Math.random() * 0.5
-          );
-          mesh.add(rock);
-        }
-        break;
-
-      case 'dirt':
-        // Add small pebbles or roots
-        if (Math.random() > 0.8) {
-          patternMaterial = new MeshStandardMaterial({
-            color: Math.random() > 0.5 ? 0x554422 : 0x665533,
-            roughness: 0.9,
-            metalness: 0.0,
-          });
-
-          const pebble = new Mesh(patternGeometry, patternMaterial);
-          pebble.position.set(
-            (Math.random() - 0.5) * BLOCK_SIZE * 0.7,
-            BLOCK_SIZE * 0.5 * (Math.random() - 0.3),
-            (Math.random() - 0.5) * BLOCK_SIZE * 0.7
-          );
-          pebble.scale.set(
-            0.3 + Math.random() * 0.3,
-            0.2 + Math.random() * 0.2,
-            0.3 + Math.random() * 0.3
-          );
-          mesh.add(pebble);
-        }
-        break;
-
-      case 'wood':
-        // Add wood grain patterns
-        patternMaterial = new MeshStandardMaterial({
-          color: 0x6b4226, // Darker brown for grain
-          roughness: 0.9,
-          metalness: 0.0,
-        });
+    chunk.needsMesh = false;
+  };
 
-        if (Math.random() > 0.5) {
-          // Create wood grain lines
-          const grainGeometry = new BoxGeometry(
-            BLOCK_SIZE * 0.8,
-            BLOCK_SIZE * 0.02,
-            BLOCK_SIZE * 0.1
-          );
-
-          // Add 2-4 grain lines
-          const grainCount = Math.floor(Math.random() * 3) + 2;
-
-          for (let i = 0; i < grainCount; i++) {
-            const grain = new Mesh(grainGeometry, patternMaterial);
-            // Position grain on the sides of the wood block
-            grain.position.set(
-              0,
-              (Math.random() - 0.5) * BLOCK_SIZE * 0.7,
-              BLOCK_SIZE * 0.5 * 0.95 // Slightly inset from the surface
-            );
-            grain.rotation.z = Math.random() * 0.2 - 0.1; // Slight random rotation
-            mesh.add(grain);
-          }
-        }
-        break;
-
-      case 'leaves':
-        // Add small leaf details
-        patternMaterial = new MeshStandardMaterial({
-          color: 0x3da35d, // Slightly different green
-          roughness: 0.7,
-          metalness: 0.0,
-          transparent: true,
-          opacity: 0.9,
-        });
+  // Change a single block and rebuild only the chunks whose faces it touches.
+  // Changes the world makes by itself can leave the rebuild to the mesh
+  // budget of the next frames, and changes it redoes by itself after a reload
+  // needn't be saved. Returns false when the position is outside the loaded
+  // world and nothing changed.
+  const setBlockAt = (
+    position: Vector3,
+    type: BlockType | null,
+    deferMesh = false,
+    saveEdit = true
+  ) => {
+    const chunk = chunks.current.get(
+      chunkKey(worldToChunk(position.x), worldToChunk(position.z))
+    );
+    if (!chunk) return false;
 
-        // Add 3-6 small leaf clusters
-        const leafCount = Math.floor(Math.random() * 4) + 3;
-
-        for (let i = 0; i < leafCount; i++) {
-          const leafGeometry = new BoxGeometry(
-            BLOCK_SIZE * 0.15,
-            BLOCK_SIZE * 0.15,
-            BLOCK_SIZE * 0.15
-          );
-          const leaf = new Mesh(leafGeometry, patternMaterial);
-
-          // Position leaves randomly around the block
-          leaf.position.set(
-            (Math.random() - 0.5) * BLOCK_SIZE * 0.9,
-            (Math.random() - 0.5) * BLOCK_SIZE * 0.9,
-            (Math.random() - 0.5) * BLOCK_SIZE * 0.9
-          );
-
-          // Random rotation for variety
-          leaf.rotation.set(
-            Math.random() * Math.PI,
-            Math.random() * Math.PI,
-            Math.random() * Math.PI
-          );
-
-          mesh.add(leaf);
-        }
-        break;
+    const id = type ? getBlockId(type) : AIR;
+    if (!voxelStore.current.setBlock(position.x, position.y, position.z, id)) {
+      return false;
+    }
+    if (saveEdit) {
+      blockEdits.current.set(position.x, position.y, position.z, type);
     }
+
+    refreshBlock(chunk, position.x, position.y, position.z).forEach(
+      (changed) => {
+        if (deferMesh) changed.needsMesh = true;
+        else buildChunkMesh(changed);
+      }
+    );
+
+    // Water and blocks around it may react to the change
+    fluidSimulator.current.notify(position.x, position.y, position.z);
+    blockUpdates.current.notify(position.x, position.y, position.z);
+    return true;
   };
 
-  const createBlock = (position: Vector3, type: BlockType) => {
-    const geometry = new BoxGeometry(BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
-
-    let materials;
-
-    // Add slight random variation to make blocks look more natural
-    const colorJitter = () => 1 + (Math.random() * 0.1 - 0.05);
-
-    switch (type) {
-      case 'grass':
-        // Create different materials for each face of the grass block
-        materials = [
-          // Right face
-          new MeshStandardMaterial({
-            color: new Color(blockColors.grass * 0.8).multiplyScalar(
-              colorJitter()
-            ),
-            roughness: 0.8,
-            metalness: 0.1,
-          }),
-          // Left face
-          new MeshStandardMaterial({
-            color: new Color(blockColors.grass * 0.7).multiplyScalar(
-              colorJitter()
-            ),
-            roughness: 0.8,
-            metalness: 0.1,
-          }),
-          // Top face
-          new MeshStandardMaterial({
-            color: new Color(blockColors.grass).multiplyScalar(colorJitter()),
-            roughness: 0.7,
-            metalness: 0.1,
-          }),
-          // Bottom face
-          new MeshStandardMaterial({
-            color: new Color(blockColors.dirt).multiplyScalar(colorJitter()),
-            roughness: 0.9,
-            metalness: 0.1,
-          }),
-          // Front face
-          new MeshStandardMaterial({
-            color: new Color(blockColors.grass * 0.9).multiplyScalar(
-              colorJitter()
-            ),
-            roughness: 0.8,
-            metalness: 0.1,
-          }),
-          // Back face
-          new MeshStandardMaterial({
-            color: new Color(blockColors.grass * 0.85).multiplyScalar(
-              colorJitter()
-            ),
-            roughness: 0.8,
-            metalness: 0.1,
-          }),
-        ];
-        break;
-
-      case 'dirt':
-        // Single material with slight variation for all faces
-        const dirtColor = new Color(blockColors.dirt).multiplyScalar(
-          colorJitter()
-        );
-        materials = new MeshStandardMaterial({
-          color: dirtColor,
-          roughness: 0.9,
-          metalness: 0.1,
-        });
-        break;
+  // Remove a block the world breaks by itself, such as decaying leaves,
+  // leaving its drops on the ground
+  const breakBlockAt = (position: Vector3) => {
+    const type = getBlockType(
+      voxelStore.current.getBlock(position.x, position.y, position.z)
+    );
+    if (!type) return;
 
-      case 'stone':
-        // Single material with slight variation for all faces
-        const stoneColor = new Color(blockColors.stone).multiplyScalar(
-          colorJitter()
-        );
-        materials = new MeshStandardMaterial({
-          color: stoneColor,
-          roughness: 0.7,
-          metalness: 0.2,
-        });
-        break;
+    setBlockAt(position, null, true);
+    if (gameMode.dropsItems) {
+      rollDrops(type).forEach((stack) => spawnItemDrop(stack, position));
+    }
+  };
 
-      case 'bedrock':
-        // Single material with slight variation for all faces
-        const bedrockColor = new Color(blockColors.bedrock).multiplyScalar(
-          colorJitter()
-        );
-        materials = new MeshStandardMaterial({
-          color: bedrockColor,
-          roughness: 0.9,
-          metalness: 0.3,
-        });
-        break;
+  // The world as block behaviours see it
+  // Changes made by behaviours are kept as edits like the player's unless
+  // they ask otherwise: decayed leaves have already dropped their items and
+  // grown trees are random, so a regenerated chunk must not bring back what
+  // was there before
+  const blockWorld: BlockWorld = {
+    getBlock: (x, y, z) => voxelStore.current.getBlock(x, y, z),
+    setBlock: (x, y, z, type, save = true) =>
+      setBlockAt(new Vector3(x, y, z), type, true, save),
+    breakBlock: (x, y, z) => breakBlockAt(new Vector3(x, y, z)),
+    getLight: (x, y, z) => lightStore.current.getLight(x, y, z),
+    schedule: (x, y, z, delay) => blockUpdates.current.schedule(x, y, z, delay),
+    random: Math.random,
+    getWorldTime: () => worldTime.current,
+    getTimeOfDay: () => getTimeOfDay(worldTime.current),
+  };
 
-      case 'wood':
-        // Wood has a distinct trunk-like appearance
-        const woodColor = new Color(blockColors.wood).multiplyScalar(
-          colorJitter()
-        );
-        materials = new MeshStandardMaterial({
-          color: woodColor,
-          roughness: 0.8,
-          metalness: 0.1,
-        });
-        break;
+  const updateBlocks = () => {
+    blockUpdates.current.tick(blockWorld, chunks.current.values());
+  };
 
-      case 'leaves':
-        // Leaves are slightly transparent and have a lighter color
-        const leavesColor = new Color(blockColors.leaves).multiplyScalar(
-          colorJitter()
-        );
-        materials = new MeshStandardMaterial({
-          color: leavesColor,
-          roughness: 0.7,
-          metalness: 0.0,
-          transparent: true,
-          opacity: 0.9,
-        });
-        break;
-
-      default:
-        // Fallback to basic material
-        materials = new MeshStandardMaterial({
-          color: blockColors[type],
-          roughness: 0.8,
-          metalness: 0.1,
-        });
-    }
+  // Relight around a block that changed in the voxel store, and list the
+  // chunks whose meshes need rebuilding for it
+  const refreshBlock = (chunk: Chunk, x: number, y: number, z: number) => {
+    const relit = lightStore.current.updateBlock(x, y, z);
+
+    const localX = worldToLocal(x);
+    const localZ = worldToLocal(z);
+
+    // Blocks on a chunk border also change the faces of the neighbour, and
+    // light can spread into chunks further away
+    const neighbours: Array<[number, number]> = [];
+    if (localX === 0) neighbours.push([chunk.cx - 1, chunk.cz]);
+    if (localX === CHUNK_SIZE - 1) neighbours.push([chunk.cx + 1, chunk.cz]);
+    if (localZ === 0) neighbours.push([chunk.cx, chunk.cz - 1]);
+    if (localZ === CHUNK_SIZE - 1) neighbours.push([chunk.cx, chunk.cz + 1]);
+    relit.forEach(({ cx, cz }) => neighbours.push([cx, cz]));
+
+    const rebuild = new Set([chunk]);
+    neighbours.forEach(([ncx, ncz]) => {
+      const neighbour = chunks.current.get(chunkKey(ncx, ncz));
+      if (neighbour) rebuild.add(neighbour);
+    });
+    return rebuild;
+  };
 
-    const mesh = new Mesh(geometry, materials);
-    mesh.position.copy(position);
+  // Apply a tick of flowing water; its chunks are rebuilt over the next
+  // frames rather than all at once
+  const updateFluids = () => {
+    fluidSimulator.current.tick().forEach(({ x, y, z }) => {
+      const chunk = chunks.current.get(
+        chunkKey(worldToChunk(x), worldToChunk(z))
+      );
+      if (!chunk) return;
+      refreshBlock(chunk, x, y, z).forEach((changed) => {
+        changed.needsMesh = true;
+      });
+      blockUpdates.current.notify(x, y, z);
+    });
+  };
 
-    // Add subtle random rotation for more natural look
-    if (type !== 'bedrock') {
-      mesh.rotation.y = (Math.floor(Math.random() * 4) * Math.PI) / 2;
-    }
+  const generateChunk = (cx: number, cz: number) => {
+    const voxels = generateTerrain(
+      worldSeed.current,
+      cx,
+      cz,
+      terrainConfig.current
+    );
 
-    // Add patterns and details to blocks
-    createBlockPattern(type, mesh);
+    // Replay blocks changed inside this chunk
+    blockEdits.current.forEachInChunk(cx, cz, ({ x, y, z, type }) => {
+      if (!isInsideWorldHeight(y)) return;
+      voxels[voxelIndex(worldToLocal(x), y, worldToLocal(z))] = type
+        ? getBlockId(type)
+        : AIR;
+    });
 
-    // Add subtle ambient occlusion effect by darkening bottom blocks slightly
-    if (Math.random() > 0.7) {
-      if (Array.isArray(materials)) {
-        materials.forEach((mat) => {
-          if (mat.color) mat.color.multiplyScalar(0.9);
-        });
-      } else if (materials.color) {
-        materials.color.multiplyScalar(0.9);
-      }
-    }
+    return voxels;
+  };
 
-    const block: Block = {
-      position,
-      type,
-      mesh,
+  const loadChunk = (cx: number, cz: number) => {
+    const chunk: Chunk = {
+      cx,
+      cz,
+      group: new Group(),
+      terrain: null,
+      decorations: null,
+      needsMesh: true,
     };
+    voxelStore.current.setChunk(cx, cz, generateChunk(cx, cz));
+    const relit = lightStore.current.addChunk(cx, cz);
+    worldRef.current.add(chunk.group);
+    chunks.current.set(chunkKey(cx, cz), chunk);
+
+    buildChunkMesh(chunk);
+    markNeighboursForMeshing(chunk);
+
+    // Light from the new chunk can reach past its direct neighbours
+    relit.forEach(({ cx: rcx, cz: rcz }) => {
+      const other = chunks.current.get(chunkKey(rcx, rcz));
+      if (other) other.needsMesh = true;
+    });
 
-    blocks.current.push(block);
-    return mesh;
+    // Flows aren't saved, so let water run again around the player's edits
+    blockEdits.current.forEachInChunk(cx, cz, ({ x, y, z }) =>
+      fluidSimulator.current.notify(x, y, z)
+    );
   };
 
-  const generateTerrain = () => {
-    const world = worldRef.current;
-
-    // Simple noise function for terrain generation
-    const noise = (
-      x: number,
-      z: number,
-      scale: number = 1,
-      amplitude: number = 1
-    ) => {
-      // Simple implementation of Perlin-like noise
-      const X = Math.floor(x * scale);
-      const Z = Math.floor(z * scale);
-
-      // Generate pseudo-random values based on coordinates
-      const dot1 = Math.sin(X * 12.9898 + Z * 78.233) * 43758.5453;
-      const dot2 = Math.sin(X * 63.9898 + Z * 23.233) * 93758.5453;
-
-      // Combine and normalize
-      return ((Math.sin(dot1) + Math.sin(dot2)) * 0.5 + 0.5) * amplitude;
-    };
+  // Border faces of the chunks around this one depend on its blocks
+  const markNeighboursForMeshing = (chunk: Chunk) => {
+    [
+      [chunk.cx - 1, chunk.cz],
+      [chunk.cx + 1, chunk.cz],
+      [chunk.cx, chunk.cz - 1],
+      [chunk.cx, chunk.cz + 1],
+    ].forEach(([ncx, ncz]) => {
+      const neighbour = chunks.current.get(chunkKey(ncx, ncz));
+      if (neighbour) neighbour.needsMesh = true;
+    });
+  };
 
-    // Function to generate a tree at a specific position
-    const generateTree = (x: number, z: number, baseHeight: number) => {
-      // Create the trunk (3-5 blocks tall)
-      const trunkHeight = Math.floor(Math.random() * 3) + 3;
+  const unloadChunk = (chunk: Chunk) => {
+    worldRef.current.remove(chunk.group);
 
-      for (let y = 0; y < trunkHeight; y++) {
-        const woodBlock = createBlock(
-          new Vector3(x * BLOCK_SIZE, baseHeight + y + 1, z * BLOCK_SIZE),
-          'wood'
-        );
-        world.add(woodBlock);
-      }
+    // Free the chunk's geometry; materials are shared between chunks
+    chunk.terrain?.geometry.dispose();
+    chunk.decorations?.geometry.dispose();
 
-      // Create the leaves (a roughly spherical shape)
-      const leafRadius = Math.floor(Math.random() * 1) + 2; // 2-3 block radius
-      const leafHeight = Math.floor(Math.random() * 2) + 2; // 2-3 blocks tall
-      const leafStartHeight = trunkHeight - 1; // Start leaves near top of trunk
-
-      // Generate leaves in a roughly spherical pattern
-      for (let y = 0; y < leafHeight; y++) {
-        const layerRadius =
-          y === 0 || y === leafHeight - 1
-            ? Math.max(1, leafRadius - 1) // Smaller radius at top and bottom
-            : leafRadius;
-
-        for (let lx = -layerRadius; lx <= layerRadius; lx++) {
-          for (let lz = -layerRadius; lz <= layerRadius; lz++) {
-            // Skip corners to make it more rounded
-            if (lx * lx + lz * lz > layerRadius * layerRadius + 1) continue;
-
-            // Random chance to skip some leaves for a more natural look
-            if (Math.random() > 0.8) continue;
-
-            const leafBlock = createBlock(
-              new Vector3(
-                (x + lx) * BLOCK_SIZE,
-                baseHeight + leafStartHeight + y,
-                (z + lz) * BLOCK_SIZE
-              ),
-              'leaves'
-            );
-            world.add(leafBlock);
-          }
-        }
-      }
-    };
+    voxelStore.current.deleteChunk(chunk.cx, chunk.cz);
+    lightStore.current.deleteChunk(chunk.cx, chunk.cz);
+    fluidSimulator.current.deleteChunk(chunk.cx, chunk.cz);
+    blockUpdates.current.deleteChunk(chunk.cx, chunk.cz);
 
-    // 3D noise function for underground features
-    const noise3D = (x: number, y: number, z: number) => {
-      // Simple implementation of 3D noise
-      const X = Math.floor(x * 0.5);
-      const Y = Math.floor(y * 0.5);
-      const Z = Math.floor(z * 0.5);
+    if (
+      highlightedBlockRef.current &&
+      worldToChunk(highlightedBlockRef.current.position.x) === chunk.cx &&
+      worldToChunk(highlightedBlockRef.current.position.z) === chunk.cz
+    ) {
+      clearHighlight();
+    }
 
-      // Generate pseudo-random values based on coordinates
-      const dot = Math.sin(X * 12.9898 + Y * 43.233 + Z * 78.233) * 43758.5453;
+    chunks.current.delete(chunkKey(chunk.cx, chunk.cz));
+    markNeighboursForMeshing(chunk);
+  };
 
-      // Normalize to 0-1
-      return Math.sin(dot) * 0.5 + 0.5;
+  // Stream chunks in and out around the given position
+  const updateChunks = (
+    position: Vector3,
+    maxLoads = CHUNK_LOADS_PER_FRAME
+  ) => {
+    const center = {
+      cx: worldToChunk(position.x),
+      cz: worldToChunk(position.z),
     };
 
-    // Generate a more interesting terrain with different layers
-    for (let x = 0; x < WORLD_SIZE; x++) {
-      for (let z = 0; z < WORLD_SIZE; z++) {
-        // Generate height using multiple layers of noise
-        const baseHeight =
-          noise(x, z, 0.1, 4) + // Large hills
-          noise(x, z, 0.2, 2) + // Medium features
-          noise(x, z, 0.5, 1); // Small details
+    chunks.current.forEach((chunk) => {
+      if (chunkDistance(chunk, center) > viewDistance.current) {
+        unloadChunk(chunk);
+      }
+    });
 
-        // Round to integer and add base height
-        const height = Math.floor(baseHeight) - 2;
+    let loads = 0;
+    for (const coord of getChunksInRange(center, viewDistance.current)) {
+      if (loads >= maxLoads) break;
+      if (chunks.current.has(chunkKey(coord.cx, coord.cz))) continue;
+      loadChunk(coord.cx, coord.cz);
+      loads++;
+    }
 
-        // Determine block type for the top layer
-        let topBlockType: BlockType = 'grass';
+    // Refresh chunks whose neighbours were loaded or unloaded
+    let meshes = 0;
+    for (const chunk of chunks.current.values()) {
+      if (meshes >= CHUNK_MESHES_PER_FRAME) break;
+      if (!chunk.needsMesh) continue;
+      buildChunkMesh(chunk);
+      meshes++;
+    }
+  };
 
-        // Occasionally create stone outcroppings
-        if (noise(x, z, 0.3, 1) > 0.8 && baseHeight > 3) {
-          topBlockType = 'stone';
-        }
+  // Sky dome with the sun and moon inside it. It moves with the camera, so
+  // it is never reached, and ignores fog so the sun and moon stay visible.
+  const createSkybox = () => {
+    const dome = new Mesh(
+      new BoxGeometry(1000, 1000, 1000),
+      new MeshBasicMaterial({
+        color: new Color('#87CEEB'), // Light sky blue
+        side: BackSide, // Render on the inside of the cube
+        fog: false,
+      })
+    );
+    const sun = new Mesh(
+      new PlaneGeometry(60, 60),
+      new MeshBasicMaterial({ color: 0xfff3b0, fog: false })
+    );
+    const moon = new Mesh(
+      new PlaneGeometry(40, 40),
+      new MeshBasicMaterial({ color: 0xdde4f0, fog: false })
+    );
 
-        // Add top block
-        const topBlock = createBlock(
-          new Vector3(x * BLOCK_SIZE, height, z * BLOCK_SIZE),
-          topBlockType
-        );
-        world.add(topBlock);
-
-        // Determine dirt layer depth (1-3 blocks)
-        const dirtDepth =
-          topBlockType === 'stone'
-            ? 1 // Less dirt under stone
-            : Math.floor(noise(x, z, 0.4, 2)) + 2; // 2-3 blocks under grass
-
-        // Add dirt below top layer
-        for (let y = 1; y <= dirtDepth; y++) {
-          const dirtBlock = createBlock(
-            new Vector3(x * BLOCK_SIZE, height - y, z * BLOCK_SIZE),
-            'dirt'
-          );
-          world.add(dirtBlock);
-        }
+    const group = new Group();
+    group.add(dome, sun, moon);
+    return { group, dome, sun, moon };
+  };
 
-        // Add stone below dirt down to bedrock level
-        const bedrockLevel = -7;
-        for (let y = dirtDepth + 1; y <= Math.abs(bedrockLevel - height); y++) {
-          // Occasionally add dirt pockets in stone
-          const blockType = noise3D(x, y, z) > 0.9 ? 'dirt' : 'stone';
-
-          const stoneBlock = createBlock(
-            new Vector3(x * BLOCK_SIZE, height - y, z * BLOCK_SIZE),
-            blockType
-          );
-          world.add(stoneBlock);
-        }
+  // Move the sun and moon and recolor the sky, fog and lights for the
+  // current time of day
+  const updateSky = (scene: Scene, cameraPosition: Vector3) => {
+    const objects = sky.current;
+    const lights = skyLights.current;
+    if (!objects || !lights) return;
+
+    const state = getSkyState(getTimeOfDay(worldTime.current));
+
+    objects.group.position.copy(cameraPosition);
+    objects.dome.material.color.copy(state.skyColor);
+    objects.sun.position.copy(state.sunDirection).multiplyScalar(SKY_DISTANCE);
+    objects.moon.position
+      .copy(state.sunDirection)
+      .multiplyScalar(-SKY_DISTANCE);
+    objects.sun.lookAt(cameraPosition);
+    objects.moon.lookAt(cameraPosition);
+
+    // Under water, a thick tinted fog hides everything but the nearby blocks
+    const underwater = isFluidAt(
+      cameraPosition.x,
+      cameraPosition.y,
+      cameraPosition.z
+    );
+    const fogColor = underwater
+      ? UNDERWATER_FOG_COLOR.clone().multiplyScalar(state.ambientIntensity * 2)
+      : state.fogColor;
+    (scene.background as Color).copy(underwater ? fogColor : state.skyColor);
+    if (scene.fog instanceof FogExp2) {
+      scene.fog.color.copy(fogColor);
+      scene.fog.density = underwater ? UNDERWATER_FOG_DENSITY : FOG_DENSITY;
+    }
 
-        // Add bedrock at the bottom
-        const bedrockBlock = createBlock(
-          new Vector3(x * BLOCK_SIZE, bedrockLevel, z * BLOCK_SIZE),
-          'bedrock'
-        );
-        world.add(bedrockBlock);
-
-        // Randomly generate trees on grass blocks (but not too close to edges)
-        if (
-          topBlockType === 'grass' &&
-          x > 2 &&
-          x < WORLD_SIZE - 3 &&
-          z > 2 &&
-          z < WORLD_SIZE - 3 &&
-          Math.random() < 0.05 // 3% chance for a tree
-        ) {
-          generateTree(x, z, height);
-        }
+    lights.ambient.intensity = state.ambientIntensity;
+    daylight.current.value = state.daylight;
+    lights.sun.position.copy(state.sunDirection).multiplyScalar(100);
+    lights.sun.intensity = state.sunIntensity;
+    lights.moon.position.copy(state.sunDirection).multiplyScalar(-100);
+    lights.moon.intensity = state.moonIntensity;
+    // Light reflected off the sky and ground fades with the sun
+    lights.fill.intensity = 0.3 * state.sunIntensity;
+    lights.bounce.intensity = 0.2 * state.sunIntensity;
+  };
+
+  // Standing spot on top of the highest solid block (or water surface) in the
+  // middle of the first chunk, which must already be generated
+  const findSpawnPoint = () => {
+    const x = CHUNK_SIZE / 2;
+    const z = CHUNK_SIZE / 2;
+    for (let y = WORLD_MIN_Y + WORLD_HEIGHT - 1; y >= WORLD_MIN_Y; y--) {
+      if (isSolidAt(x, y, z) || isFluidAt(x, y, z)) {
+        return new Vector3(x, y + BLOCK_SIZE / 2 + PLAYER_HEIGHT, z);
       }
     }
+    return new Vector3(x, WORLD_MIN_Y + WORLD_HEIGHT, z);
+  };
 
-    return world;
+  // Put the player back at the spawn point
+  const spawnPlayer = () => {
+    // Start high above the middle of the world until a spawn point is known
+    playerPosition.current.copy(
+      spawnPoint.current ??
+        new Vector3(CHUNK_SIZE / 2, WORLD_MIN_Y + WORLD_HEIGHT, CHUNK_SIZE / 2)
+    );
+    previousPlayerPosition.current.copy(playerPosition.current);
+    eulerRef.current.set(0, 0, 0);
+    playerVelocity.current.set(0, 0, 0);
   };
 
-  const createSkybox = () => {
-    const geometry = new BoxGeometry(1000, 1000, 1000);
-    const material = new MeshBasicMaterial({
-      color: new Color('#87CEEB'), // Light sky blue
-      side: BackSide, // Render on the inside of the cube
+  // Load a resource pack's atlas onto the chunk materials and remesh every
+  // chunk with its texture coordinates
+  const loadResourcePack = async (packId: string) => {
+    resourcePack.current = packId;
+
+    let atlas: TextureAtlas;
+    try {
+      atlas = await loadTextureAtlas(getResourcePack(packId));
+    } catch (error) {
+      console.warn('Failed to load resource pack:', error);
+      return;
+    }
+
+    // Another pack was picked while this one was loading
+    if (resourcePack.current !== packId || !chunkMaterials.current) {
+      atlas.texture.dispose();
+      return;
+    }
+
+    textureAtlas.current?.texture.dispose();
+    textureAtlas.current = atlas;
+    chunkMaterials.current.terrain.forEach((material) => {
+      material.map = atlas.texture;
+      material.needsUpdate = true;
+    });
+
+    // The crack overlay shows one tile at a time through its own offset
+    const cracks = crackOverlay.current?.material;
+    if (cracks) {
+      cracks.map?.dispose();
+      cracks.map = atlas.texture.clone();
+      cracks.color.set(0xffffff);
+      cracks.needsUpdate = true;
+    }
+    chunks.current.forEach((chunk) => {
+      chunk.needsMesh = true;
     });
-    return new Mesh(geometry, material);
   };
 
-  // Add function to highlight a block
-  const highlightBlock = (block: Block) => {
-    // Remove highlight from previously highlighted block if any
-    if (
-      highlightedBlockRef.current &&
-      highlightedBlockRef.current.highlightEdges
-    ) {
-      highlightedBlockRef.current.mesh.remove(
-        highlightedBlockRef.current.highlightEdges
-      );
-      highlightedBlockRef.current.highlightEdges = undefined;
+  // Apply settings from the settings panel
+  const applySettings = (settings: GameSettings) => {
+    setSettingsVisible(false);
+    viewDistance.current = settings.viewDistance;
+    dropMode.current = settings.dropMode;
+    if (settings.resourcePack !== resourcePack.current) {
+      loadResourcePack(settings.resourcePack);
     }
+  };
+
+  // Save the world and a thumbnail of the current view, then leave to the menu
+  const exitToMenu = async () => {
+    await persistWorld();
+
+    if (glRef.current) {
+      try {
+        const snapshot = await GLView.takeSnapshotAsync(glRef.current, {
+          format: 'jpeg',
+          compress: 0.5,
+        });
+        await setWorldThumbnail(world.id, snapshot.uri as string);
+      } catch (error) {
+        console.warn('Failed to capture world thumbnail:', error);
+      }
+    }
+
+    onExit();
+  };
 
+  // Add function to highlight a block
+  const highlightBlock = (block: Block) => {
     // Set new highlighted block
     highlightedBlockRef.current = block;
 
-    // Create edges geometry for the block
-    const edgesGeometry = new EdgesGeometry(block.mesh.geometry);
-    const edgesMaterial = new LineBasicMaterial({
-      color: 0xffffff,
-      linewidth: 2,
-    });
-    const edges = new LineSegments(edgesGeometry, edgesMaterial);
+    // Move the shared outline onto the block
+    if (highlightEdges.current) {
+      highlightEdges.current.position.copy(block.position);
+      highlightEdges.current.visible = true;
+    }
+  };
+
+  const clearHighlight = () => {
+    highlightedBlockRef.current = null;
+    if (highlightEdges.current) {
+      highlightEdges.current.visible = false;
+    }
+  };
+
+  // Find the block under a screen position by walking the voxel grid
+  const getTargetAtScreenPosition = (x: number, y: number) => {
+    if (!cameraRef.current) return null;
+    const camera = cameraRef.current;
+
+    // Get the screen dimensions
+    const { width, height } = Dimensions.get('window');
+
+    // Convert touch position to normalized device coordinates (-1 to +1)
+    const normalizedX = (x / width) * 2 - 1;
+    const normalizedY = -(y / height) * 2 + 1; // Y is inverted
 
-    // Add edges to the block mesh
-    block.mesh.add(edges);
-    block.highlightEdges = edges;
+    // Direction from the camera through the touched point
+    const direction = new Vector3(normalizedX, normalizedY, 0.5)
+      .unproject(camera)
+      .sub(camera.position);
+
+    // Water is reached through, so blocks under it can be targeted
+    return raycastVoxels(
+      camera.position,
+      direction,
+      REACH_DISTANCE,
+      (x, y, z) => {
+        const id = voxelStore.current.getBlock(x, y, z);
+        return isFluid(id) ? AIR : id;
+      }
+    );
   };
 
   // Add function to show touch indicator
@@ -867,23 +1134,56 @@ export default function App() {
     touchX.value = x;
     touchY.value = y;
     touchVisible.value = 1;
-    isDestructionInProgress.value = true;
-    destructionProgress.value = 0;
 
     // First highlight the block that's being targeted
     highlightBlockAtPosition(x, y);
 
-    // Animate progress from 0 to 1 over 800ms
+    const hit = getTargetAtScreenPosition(x, y);
+    const type =
+      hit &&
+      getBlockType(
+        voxelStore.current.getBlock(
+          hit.position.x,
+          hit.position.y,
+          hit.position.z
+        )
+      );
+    if (!hit || !type) return;
+
+    // Creative players break blocks at the first touch
+    if (gameMode.instantBreak) {
+      destroyBlock(hit.position);
+      return;
+    }
+
+    // Harder blocks take longer, and the right tool speeds them up
+    const duration = getBreakTime(
+      type,
+      inventoryRef.current[selectedSlot]?.type ?? null
+    );
+
+    // Unbreakable blocks never start cracking
+    if (!Number.isFinite(duration)) return;
+
+    miningRef.current = {
+      position: hit.position,
+      startedAt: performance.now(),
+      duration,
+    };
+    isDestructionInProgress.value = true;
+    destructionProgress.value = 0;
+
+    // Animate progress from 0 to 1 over the block's break time
     destructionProgress.value = withTiming(
       1,
       {
-        duration: 800,
+        duration,
         easing: Easing.linear,
       },
       (finished) => {
         if (finished) {
           // When animation completes, trigger block destruction
-          runOnJS(destroyBlockAtPosition)(x, y);
+          runOnJS(finishMining)();
         }
       }
     );
@@ -891,179 +1191,130 @@ export default function App() {
 
   // Add function to highlight block at specific position
   const highlightBlockAtPosition = (x: number, y: number) => {
-    if (!cameraRef.current || !worldRef.current) return;
-
-    // Get the screen dimensions
-    const { width, height } = Dimensions.get('window');
-
-    // Convert touch position to normalized device coordinates (-1 to +1)
-    const normalizedX = (x / width) * 2 - 1;
-    const normalizedY = -(y / height) * 2 + 1; // Y is inverted
-
-    // Create raycaster from camera using the touch position
-    const raycaster = new Raycaster();
-    raycaster.setFromCamera(
-      { x: normalizedX, y: normalizedY },
-      cameraRef.current
-    );
-
-    // Check for intersections with blocks
-    const intersects = raycaster.intersectObjects(
-      blocks.current.map((block) => block.mesh),
-      false
-    );
-
-    if (intersects.length > 0) {
-      // Find the block that was clicked
-      const clickedMesh = intersects[0].object;
-      const clickedBlock = blocks.current.find(
-        (block) => block.mesh === clickedMesh
+    const hit = getTargetAtScreenPosition(x, y);
+    const type =
+      hit &&
+      getBlockType(
+        voxelStore.current.getBlock(
+          hit.position.x,
+          hit.position.y,
+          hit.position.z
+        )
       );
 
-      if (clickedBlock) {
-        console.log('Highlighting block at position:', clickedBlock.position);
-        highlightBlock(clickedBlock);
-      }
+    if (hit && type) {
+      console.log('Highlighting block at position:', hit.position);
+      highlightBlock({ position: hit.position, type });
     }
   };
 
-  // Add function to destroy block at specific position
-  const destroyBlockAtPosition = (x: number, y: number) => {
-    if (!cameraRef.current || !worldRef.current) return;
+  // Break the mined block once its break time has passed
+  const finishMining = () => {
+    const mining = miningRef.current;
+    miningRef.current = null;
 
     // Reset destruction progress
     isDestructionInProgress.value = false;
     destructionProgress.value = 0;
     touchVisible.value = withTiming(0, { duration: 300 });
 
-    // Get the screen dimensions
-    const { width, height } = Dimensions.get('window');
-
-    // Convert touch position to normalized device coordinates (-1 to +1)
-    const normalizedX = (x / width) * 2 - 1;
-    const normalizedY = -(y / height) * 2 + 1; // Y is inverted
-
-    // Create raycaster from camera using the touch position
-    const raycaster = new Raycaster();
-    raycaster.setFromCamera(
-      { x: normalizedX, y: normalizedY },
-      cameraRef.current
-    );
+    if (mining) destroyBlock(mining.position);
+  };
 
-    // Check for intersections with blocks
-    const intersects = raycaster.intersectObjects(
-      blocks.current.map((block) => block.mesh),
-      false
+  // Add function to destroy the block at a world position
+  const destroyBlock = (position: Vector3) => {
+    const type = getBlockType(
+      voxelStore.current.getBlock(position.x, position.y, position.z)
     );
 
-    if (intersects.length > 0) {
-      // Find the block that was clicked
-      const clickedMesh = intersects[0].object;
-      const clickedBlock = blocks.current.find(
-        (block) => block.mesh === clickedMesh
-      );
+    // Unbreakable blocks such as bedrock stay put
+    if (!type || !Number.isFinite(getBlockDefinition(type).hardness)) return;
 
-      if (clickedBlock) {
-        console.log('Destroying block at position:', clickedBlock.position);
+    console.log('Destroying block at position:', position);
 
-        // Remove the block from the scene
-        worldRef.current.remove(clickedBlock.mesh);
+    // Remove the block from its chunk
+    setBlockAt(position, null);
 
-        // Remove the block from our blocks array
-        blocks.current = blocks.current.filter(
-          (block) => block !== clickedBlock
-        );
+    // Hand over whatever the block drops; what doesn't fit in the inventory
+    // falls on the ground
+    const stacks = gameMode.dropsItems ? rollDrops(type) : [];
+    stacks.forEach((stack) => {
+      const count =
+        dropMode.current === 'direct' ? addToInventory(stack) : stack.count;
+      if (count > 0) spawnItemDrop({ type: stack.type, count }, position);
+    });
 
-        // If this was the highlighted block, clear the highlight reference
-        if (highlightedBlockRef.current === clickedBlock) {
-          highlightedBlockRef.current = null;
-        }
-      }
+    // If this was the highlighted block, clear the highlight
+    if (highlightedBlockRef.current?.position.equals(position)) {
+      clearHighlight();
     }
   };
 
-  // Add function to add a block at the position where the user taps
-  const addBlockAtPosition = (x: number, y: number) => {
-    if (!cameraRef.current || !worldRef.current) return;
-    if (selectedBlockIndex === null || selectedBlockIndex === undefined) return;
-    if (inventory[selectedBlockIndex].count <= 0) return;
-
-    // Get the screen dimensions
-    const { width, height } = Dimensions.get('window');
-
-    // Convert touch position to normalized device coordinates (-1 to +1)
-    const normalizedX = (x / width) * 2 - 1;
-    const normalizedY = -(y / height) * 2 + 1; // Y is inverted
-
-    // Create raycaster from camera using the touch position
-    const raycaster = new Raycaster();
-    raycaster.setFromCamera(
-      { x: normalizedX, y: normalizedY },
-      cameraRef.current
-    );
+  const spawnItemDrop = (stack: ItemStack, position: Vector3) => {
+    const drop = createItemDrop(stack, position);
+    worldRef.current.add(drop.mesh);
+    itemDrops.current.push(drop);
+  };
 
-    // Check for intersections with blocks
-    const intersects = raycaster.intersectObjects(
-      blocks.current.map((block) => block.mesh),
-      false
+  // Put items into the inventory, returning how many didn't fit
+  const addToInventory = (stack: ItemStack) => {
+    const { inventory: next, remaining } = addItems(
+      inventoryRef.current,
+      stack
     );
+    if (remaining < stack.count) updateInventory(next);
+    return remaining;
+  };
 
-    if (intersects.length > 0) {
-      // Find the block that was clicked
-      const clickedMesh = intersects[0].object;
-      const clickedBlock = blocks.current.find(
-        (block) => block.mesh === clickedMesh
-      );
-
-      if (clickedBlock) {
-        // Calculate the position for the new block based on the face that was clicked
-        const face = intersects[0].face;
-        if (!face) return;
-
-        // Get the normal of the face that was clicked
-        const normal = face.normal.clone();
-
-        // Transform the normal from local space to world space
-        normal.transformDirection(clickedMesh.matrixWorld);
-
-        // Calculate the position for the new block
-        const newPosition = clickedBlock.position
-          .clone()
-          .add(normal.multiplyScalar(BLOCK_SIZE));
+  // Move dropped items and collect the ones the player walks over
+  const updateItemDrops = () => {
+    const playerCenter = playerPosition.current
+      .clone()
+      .setY(playerPosition.current.y - PLAYER_HEIGHT / 2);
 
-        // Check if there's already a block at this position
-        const blockExists = blocks.current.some(
-          (block) =>
-            block.position.x === newPosition.x &&
-            block.position.y === newPosition.y &&
-            block.position.z === newPosition.z
-        );
+    itemDrops.current = itemDrops.current.filter((drop) => {
+      if (!updateItemDrop(drop, isSolidAt)) {
+        disposeItemDrop(drop);
+        return false;
+      }
+      if (canPickUp(drop, playerCenter)) {
+        // A full inventory leaves the rest of the stack on the ground
+        drop.count = addToInventory({ type: drop.type, count: drop.count });
+        if (drop.count === 0) {
+          disposeItemDrop(drop);
+          return false;
+        }
+      }
+      return true;
+    });
+  };
 
-        if (!blockExists) {
-          console.log('Adding block at position:', newPosition);
+  // Add function to add a block at the position where the user taps
+  const addBlockAtPosition = (x: number, y: number) => {
+    // Tools can't be placed
+    const slot = inventoryRef.current[selectedSlot];
+    if (!slot || !isBlockType(slot.type)) return;
 
-          // Get the selected block type from inventory
-          const selectedBlockType = inventory[selectedBlockIndex].type;
+    // The new block goes into the empty cell in front of the tapped face
+    const hit = getTargetAtScreenPosition(x, y);
+    if (!hit) return;
+    const newPosition = hit.adjacent;
 
-          // Create the new block
-          const newBlockMesh = createBlock(newPosition, selectedBlockType);
+    console.log('Adding block at position:', newPosition);
 
-          // Add the new block to the scene
-          worldRef.current.add(newBlockMesh);
+    // Add the new block to the chunk that contains it; nothing is used up
+    // when the cell is above the world or in a chunk that isn't loaded
+    if (!setBlockAt(newPosition, slot.type)) return;
 
-          // Decrease the count of the selected block in inventory
-          const updatedInventory = [...inventory];
-          if (updatedInventory[selectedBlockIndex].count > 0) {
-            updatedInventory[selectedBlockIndex].count--;
-            setInventory(updatedInventory);
-          }
-        }
-      }
+    // Use up one of the selected stack
+    if (!gameMode.unlimitedItems) {
+      updateInventory(removeItems(inventoryRef.current, selectedSlot, 1));
     }
   };
 
   // Add function to cancel destruction progress
   const cancelDestructionProgress = () => {
+    miningRef.current = null;
     if (isDestructionInProgress.value) {
       cancelAnimation(destructionProgress);
       destructionProgress.value = withTiming(0, { duration: 200 });
@@ -1128,9 +1379,7 @@ export default function App() {
     // If it's a tap (not a long press) and we have a selected block with inventory, add a block
     if (
       event.state === 5 && // 5 is the END state for gestures
-      selectedBlockIndex !== null &&
-      selectedBlockIndex !== undefined &&
-      inventory[selectedBlockIndex].count > 0
+      isBlockType(inventory[selectedSlot]?.type)
     ) {
       addBlockAtPosition(touchX, touchY);
     } else {
@@ -1151,32 +1400,45 @@ export default function App() {
     moveState.current.rotateY = 0;
   };
 
-  // Function to handle block selection from inventory
-  const selectBlockFromInventory = (index: number) => {
-    setSelectedBlockIndex(index);
-    console.log(`Selected block: ${inventory[index].type}`);
-  };
+  // Show cracks on the block being broken, growing with mining progress
+  const updateCrackOverlay = () => {
+    const overlay = crackOverlay.current;
+    if (!overlay) return;
+
+    const mining = miningRef.current;
+    overlay.visible = mining !== null;
+    if (!mining) return;
 
-  // Function to get block color for UI display
-  const getBlockColor = (type: BlockType): string => {
-    switch (type) {
-      case 'grass':
-        return '#4aca28';
-      case 'dirt':
-        return '#8b5a2b';
-      case 'stone':
-        return '#888888';
-      case 'bedrock':
-        return '#333333';
-      case 'wood':
-        return '#8B4513';
-      case 'leaves':
-        return '#2E8B57';
-      default:
-        return '#ffffff';
+    overlay.position.copy(mining.position);
+    const progress = Math.min(
+      1,
+      (performance.now() - mining.startedAt) / mining.duration
+    );
+    const stage = Math.min(
+      CRACK_STAGES - 1,
+      Math.floor(progress * CRACK_STAGES)
+    );
+    const tile = textureAtlas.current?.getTile(`crack_${stage}`);
+    const material = overlay.material;
+
+    if (material.map && tile) {
+      material.map.offset.set(tile[0], tile[1]);
+      material.map.repeat.set(tile[2], tile[3]);
+      material.opacity = 1;
+    } else {
+      // Without a crack texture, darken the block instead
+      material.opacity = progress * 0.6;
     }
   };
 
+  if (!isWorldLoaded) {
+    return (
+      <View style={styles.loadingScreen}>
+        <Text style={styles.loadingText}>Loading world...</Text>
+      </View>
+    );
+  }
+
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <View style={{ flex: 1 }}>
@@ -1214,18 +1476,9 @@ export default function App() {
                 .onStart((event) => {
                   runOnJS(startDestructionProgress)(event.x, event.y);
                 })
-                .onEnd((event) => {
-                  // If the long press completes successfully, destroy the block
-                  if (event.state === 5) {
-                    // 5 is the END state for gestures
-                    runOnJS(destroyBlockAtPosition)(event.x, event.y);
-                  } else {
-                    // Otherwise cancel the destruction progress
-                    runOnJS(cancelDestructionProgress)();
-                  }
-                })
                 .onFinalize(() => {
-                  // Make sure to cancel destruction progress if the gesture is interrupted
+                  // Blocks only break once their break time has passed, so
+                  // letting go or interrupting the gesture stops breaking
                   runOnJS(cancelDestructionProgress)();
                 })
             )
@@ -1234,31 +1487,21 @@ export default function App() {
           <GLView
             style={{ flex: 1 }}
             onContextCreate={(gl: ExpoWebGLRenderingContext) => {
+              glRef.current = gl;
               const renderer = new Renderer({ gl }) as any;
               renderer.setSize(gl.drawingBufferWidth, gl.drawingBufferHeight);
 
-              // In React Native, we can't use the Canvas API
-              // Instead, we'll use simple color materials with different properties
-
-              // Create texture references with null values
-              textures.current = {
-                grassTop: null,
-                grassSide: null,
-                dirt: null,
-                stone: null,
-                bedrock: null,
-              };
-
               const scene = new Scene();
               scene.background = new Color('#87CEEB'); // Set scene background color
 
               // Add fog to the scene
               const fogColor = new Color('#87CEEB'); // Match fog color to sky
-              scene.fog = new FogExp2(fogColor, 0.01); // Exponential fog with density 0.05
+              scene.fog = new FogExp2(fogColor, FOG_DENSITY);
 
               // Create and add skybox
               const skybox = createSkybox();
-              scene.add(skybox);
+              sky.current = skybox;
+              scene.add(skybox.group);
 
               const camera = new PerspectiveCamera(
                 75,
@@ -1268,25 +1511,127 @@ export default function App() {
               );
               cameraRef.current = camera;
 
-              // Position camera at player height above the terrain
-              // Adjust starting position to be above the terrain
-              camera.position.set(WORLD_SIZE / 2, 5, WORLD_SIZE / 2); // Start higher to avoid spawning underground
-              camera.lookAt(WORLD_SIZE / 2, 5, 0);
+              // Position camera at player height above the terrain, or
+              // where the player left off in a saved world
+              spawnPlayer();
+              if (savedPlayer.current) {
+                const { position, rotation } = savedPlayer.current;
+                playerPosition.current.set(position.x, position.y, position.z);
+                previousPlayerPosition.current.copy(playerPosition.current);
+                eulerRef.current.set(rotation.x, rotation.y, 0);
+              }
+              camera.position.copy(playerPosition.current);
+
+              // Materials shared by every chunk mesh
+              chunkMaterials.current = {
+                terrain: [
+                  new MeshStandardMaterial({
+                    vertexColors: true,
+                    roughness: 0.8,
+                    metalness: 0.1,
+                  }),
+                  // Leaves are slightly transparent, and see-through pixels
+                  // of textures such as saplings are cut out
+                  new MeshStandardMaterial({
+                    vertexColors: true,
+                    roughness: 0.7,
+                    metalness: 0.0,
+                    transparent: true,
+                    opacity: 0.9,
+                    alphaTest: 0.5,
+                  }),
+                  // Water is see-through from both sides, and doesn't hide
+                  // what is behind it from the depth buffer
+                  new MeshStandardMaterial({
+                    vertexColors: true,
+                    roughness: 0.2,
+                    metalness: 0.0,
+                    transparent: true,
+                    opacity: 0.65,
+                    depthWrite: false,
+                    side: DoubleSide,
+                  }),
+                ],
+                decorations: new MeshStandardMaterial({
+                  vertexColors: true,
+                  roughness: 0.9,
+                  metalness: 0.0,
+                }),
+              };
+
+              // Blocks show flat colors until the texture atlas has loaded
+              [
+                ...chunkMaterials.current.terrain,
+                chunkMaterials.current.decorations,
+              ].forEach((material) =>
+                applyChunkShader(material, daylight.current)
+              );
+              loadResourcePack(resourcePack.current);
 
-              // Generate and add terrain
-              const world = generateTerrain();
+              // Generate every chunk around the spawn point up front so the
+              // player never starts above the void
+              const world = new Group();
               worldRef.current = world;
               scene.add(world);
 
+              // One outline moved onto whichever block is highlighted
+              const edges = new LineSegments(
+                new EdgesGeometry(
+                  new BoxGeometry(
+                    BLOCK_SIZE * 1.01,
+                    BLOCK_SIZE * 1.01,
+                    BLOCK_SIZE * 1.01
+                  )
+                ),
+                new LineBasicMaterial({ color: 0xffffff, linewidth: 2 })
+              );
+              edges.visible = false;
+              highlightEdges.current = edges;
+              scene.add(edges);
+
+              // Cracks drawn over the block being broken
+              const cracks = new Mesh(
+                new BoxGeometry(
+                  BLOCK_SIZE * 1.01,
+                  BLOCK_SIZE * 1.01,
+                  BLOCK_SIZE * 1.01
+                ),
+                new MeshBasicMaterial({
+                  color: 0x000000,
+                  transparent: true,
+                  opacity: 0,
+                  depthWrite: false,
+                })
+              );
+              cracks.visible = false;
+              crackOverlay.current = cracks;
+              scene.add(cracks);
+
+              updateChunks(camera.position, Infinity);
+
+              // The first visit to a world settles the spawn point on the
+              // ground, now that the chunks around it exist
+              if (!spawnPoint.current) {
+                spawnPoint.current = findSpawnPoint();
+                if (!savedPlayer.current) {
+                  spawnPlayer();
+                  camera.position.copy(playerPosition.current);
+                }
+              }
+
               // Enhanced lighting setup
               const ambientLight = new AmbientLight(0x777777, 0.5); // Softer ambient light
               scene.add(ambientLight);
 
-              // Main sun-like directional light
+              // Main sun-like directional light, moved through the day by
+              // updateSky, and a dim moonlight opposite it
               const mainLight = new DirectionalLight(0xffffcc, 1.0); // Warm sunlight
               mainLight.position.set(50, 100, 30);
               scene.add(mainLight);
 
+              const moonLight = new DirectionalLight(0x8899cc, 0); // Cool moonlight
+              scene.add(moonLight);
+
               // Secondary fill light (opposite direction)
               const fillLight = new DirectionalLight(0x8888ff, 0.3); // Slight blue tint for sky reflection
               fillLight.position.set(-50, 80, -30);
@@ -1297,15 +1642,39 @@ export default function App() {
               bounceLight.position.set(0, -10, 0);
               scene.add(bounceLight);
 
-              // Updated animation loop with movement
-              const animate = () => {
-                requestAnimationFrame(animate);
-                updatePlayerPosition();
-                renderer.render(scene, camera);
-                gl.endFrameEXP();
+              skyLights.current = {
+                ambient: ambientLight,
+                sun: mainLight,
+                moon: moonLight,
+                fill: fillLight,
+                bounce: bounceLight,
               };
 
-              animate();
+              // Simulate in fixed ticks and draw the camera part way between
+              // the last two player positions
+              const gameLoop = createGameLoop({
+                update: () => {
+                  worldTime.current++;
+                  updatePlayerPosition();
+                  updateItemDrops();
+                  updateFluids();
+                  updateBlocks();
+                },
+                render: (alpha) => {
+                  camera.position.lerpVectors(
+                    previousPlayerPosition.current,
+                    playerPosition.current,
+                    alpha
+                  );
+                  updateChunks(camera.position);
+                  updateSky(scene, camera.position);
+                  updateCrackOverlay();
+                  renderer.render(scene, camera);
+                  gl.endFrameEXP();
+                },
+              });
+              gameLoopRef.current = gameLoop;
+              gameLoop.start();
             }}
           />
         </GestureDetector>
@@ -1318,28 +1687,47 @@ export default function App() {
           <Animated.View style={progressFillStyle} />
         </Animated.View>
 
-        {/* Inventory HUD */}
-        <View style={styles.inventoryContainer}>
-          {inventory.map((item, index) => (
+        {/* World seed and settings */}
+        <View style={styles.topBar}>
+          <Text style={styles.seedText}>
+            {world.name} - Seed: {seedText}
+          </Text>
+          <View style={styles.topBarButtons}>
+            <TouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => setInventoryVisible(true)}
+            >
+              <Text style={styles.settingsButtonText}>Inventory</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => setCraftingVisible(true)}
+            >
+              <Text style={styles.settingsButtonText}>Craft</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => setSettingsVisible(true)}
+            >
+              <Text style={styles.settingsButtonText}>Settings</Text>
+            </TouchableOpacity>
             <TouchableOpacity
-              key={`${item.type}-${index}`}
-              style={[
-                styles.inventoryCell,
-                selectedBlockIndex === index && styles.selectedInventoryCell,
-              ]}
-              onPress={() => selectBlockFromInventory(index)}
+              style={styles.settingsButton}
+              onPress={exitToMenu}
             >
-              <View
-                style={[
-                  styles.blockPreview,
-                  { backgroundColor: getBlockColor(item.type) },
-                ]}
-              />
-              <Text style={styles.blockCount}>{item.count}</Text>
+              <Text style={styles.settingsButtonText}>Save & Quit</Text>
             </TouchableOpacity>
-          ))}
+          </View>
         </View>
 
+        <Hotbar
+          inventory={inventory}
+          selectedSlot={selectedSlot}
+          onSelect={setSelectedSlot}
+        >
+          {gameMode.takesDamage && <HealthBar health={health} />}
+        </Hotbar>
+
         <Joystick
           size={150}
           position='left'
@@ -1375,51 +1763,201 @@ export default function App() {
             <Text style={{ color: 'white', fontSize: 18 }}>JUMP</Text>
           </Animated.View>
         </GestureDetector>
+
+        {/* Flight controls, only in modes that allow it */}
+        {gameMode.canFly && (
+          <TouchableOpacity
+            style={styles.flyButton}
+            onPress={() => setFlying(!isFlying)}
+          >
+            <Text style={styles.flyButtonText}>
+              {isFlying ? 'LAND' : 'FLY'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {isFlying && (
+          <GestureDetector
+            gesture={Gesture.Tap()
+              .simultaneousWithExternalGesture()
+              .onBegin(() => {
+                runOnJS(handleDescend)(true);
+              })
+              .onFinalize(() => {
+                runOnJS(handleDescend)(false);
+              })}
+          >
+            <Animated.View style={styles.descendButton}>
+              <Text style={styles.flyButtonText}>DOWN</Text>
+            </Animated.View>
+          </GestureDetector>
+        )}
+
+        {inventoryVisible && (
+          <InventoryScreen
+            inventory={inventory}
+            palette={gameMode.unlimitedItems ? ITEM_TYPES : undefined}
+            onChange={updateInventory}
+            onClose={() => setInventoryVisible(false)}
+          />
+        )}
+
+        {craftingVisible && (
+          <CraftingScreen
+            inventory={inventory}
+            onChange={updateInventory}
+            onClose={(leftovers) => {
+              // Items that no longer fit in the inventory fall at the player's feet
+              leftovers.forEach((stack) =>
+                spawnItemDrop(stack, playerPosition.current.clone())
+              );
+              setCraftingVisible(false);
+            }}
+          />
+        )}
+
+        {isDead && (
+          <View style={styles.deathScreen}>
+            <Text style={styles.deathTitle}>You died!</Text>
+            <TouchableOpacity
+              style={styles.respawnButton}
+              onPress={respawnPlayer}
+            >
+              <Text style={styles.settingsButtonText}>Respawn</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {settingsVisible && (
+          <SettingsPanel
+            settings={{
+              viewDistance: viewDistance.current,
+              resourcePack: resourcePack.current,
+              dropMode: dropMode.current,
+            }}
+            onApply={applySettings}
+            onClose={() => setSettingsVisible(false)}
+          />
+        )}
       </View>
     </GestureHandlerRootView>
   );
 }
 
+export default function App() {
+  // World being played, or null while on the title screen
+  const [activeWorld, setActiveWorld] = React.useState<WorldInfo | null>(null);
+
+  if (!activeWorld) {
+    return <WorldMenu onPlay={setActiveWorld} />;
+  }
+
+  return (
+    <Game
+      key={activeWorld.id}
+      world={activeWorld}
+      onExit={() => setActiveWorld(null)}
+    />
+  );
+}
+
 const styles = StyleSheet.create({
-  // Inventory HUD styles
-  inventoryContainer: {
+  // Loading screen styles
+  loadingScreen: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#87CEEB',
+  },
+  loadingText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+
+  // Top bar styles
+  topBar: {
     position: 'absolute',
-    bottom: 20,
-    left: '50%',
-    marginLeft: -160, // Half of the total width (4 cells * 80px)
+    top: 20,
+    left: 20,
+    right: 20,
     flexDirection: 'row',
-    justifyContent: 'center',
+    justifyContent: 'space-between',
     alignItems: 'center',
     zIndex: 10,
   },
-  inventoryCell: {
-    width: 70,
-    height: 70,
-    margin: 5,
+  seedText: {
+    color: 'white',
+    fontSize: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  topBarButtons: {
+    flexDirection: 'row',
+  },
+  settingsButton: {
+    marginLeft: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    borderRadius: 8,
+  },
+  settingsButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+
+  // Flight controls, next to the jump button
+  flyButton: {
+    position: 'absolute',
+    bottom: 120,
+    right: 40,
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
     justifyContent: 'center',
     alignItems: 'center',
-    borderWidth: 2,
-    borderColor: 'rgba(255, 255, 255, 0.3)',
+    zIndex: 10,
   },
-  selectedInventoryCell: {
-    borderColor: 'rgba(255, 255, 255, 0.8)',
-    borderWidth: 3,
-    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  descendButton: {
+    position: 'absolute',
+    bottom: 40,
+    right: 120,
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
   },
-  blockPreview: {
-    width: 40,
-    height: 40,
-    borderRadius: 4,
+  flyButtonText: {
+    color: 'white',
+    fontSize: 14,
   },
-  blockCount: {
-    position: 'absolute',
-    bottom: 5,
-    right: 5,
+
+  // Death screen styles
+  deathScreen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(120, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 30,
+  },
+  deathTitle: {
     color: 'white',
-    fontSize: 12,
+    fontSize: 36,
     fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  respawnButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
   },
 
   // Touch indicator style
@@ -0,0 +1,269 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  useWindowDimensions,
+} from 'react-native';
+import {
+  CRAFTING_SIZE,
+  consumeIngredients,
+  createCraftingGrid,
+  findRecipe,
+} from '../game/crafting';
+import {
+  HOTBAR_SIZE,
+  INVENTORY_SIZE,
+  Inventory,
+  InventorySlot,
+  addItems,
+  removeItems,
+} from '../game/inventory';
+import { ItemStack, getItemName, getMaxStackSize } from '../game/items';
+import { ItemIcon } from './ItemIcon';
+
+interface CraftingScreenProps {
+  inventory: Inventory;
+  onChange: (inventory: Inventory) => void;
+  // Called with whatever was left in the grid and didn't fit back into the
+  // inventory
+  onClose: (leftovers: ItemStack[]) => void;
+}
+
+const SLOT_MARGIN = 3;
+const MAX_SLOT_SIZE = 48;
+
+// The storage grid followed by the hotbar, as rows of slot indices
+const INVENTORY_ROWS = Array.from(
+  { length: INVENTORY_SIZE / HOTBAR_SIZE },
+  (_, row) =>
+    Array.from(
+      { length: HOTBAR_SIZE },
+      (_, column) => ((row + 1) * HOTBAR_SIZE + column) % INVENTORY_SIZE
+    )
+);
+
+const GRID_ROWS = Array.from({ length: CRAFTING_SIZE }, (_, row) =>
+  Array.from(
+    { length: CRAFTING_SIZE },
+    (_, column) => row * CRAFTING_SIZE + column
+  )
+);
+
+export const CraftingScreen: React.FC<CraftingScreenProps> = ({
+  inventory,
+  onChange,
+  onClose,
+}) => {
+  const { width, height } = useWindowDimensions();
+  const [grid, setGrid] = React.useState(createCraftingGrid);
+  // Inventory slot that tapping a grid cell takes items from
+  const [selected, setSelected] = React.useState<number | null>(null);
+
+  // Fit the grid beside the inventory, leaving room for the title and buttons
+  const slotSize = Math.min(
+    MAX_SLOT_SIZE,
+    (width - 80) / HOTBAR_SIZE - SLOT_MARGIN * 2,
+    (height - 140) / (INVENTORY_ROWS.length + CRAFTING_SIZE) - SLOT_MARGIN * 2
+  );
+  const slotStyle = [styles.slot, { width: slotSize, height: slotSize }];
+
+  const recipe = findRecipe(grid);
+  const selectedStack = selected !== null ? inventory[selected] : null;
+
+  const setCell = (index: number, slot: InventorySlot) =>
+    setGrid((current) =>
+      current.map((cell, cellIndex) => (cellIndex === index ? slot : cell))
+    );
+
+  // Put one of the selected items into a cell, or take the cell's items back
+  const tapCell = (index: number) => {
+    const cell = grid[index];
+    if (
+      selected !== null &&
+      selectedStack &&
+      (!cell ||
+        (cell.type === selectedStack.type &&
+          cell.count < getMaxStackSize(cell.type)))
+    ) {
+      onChange(removeItems(inventory, selected, 1));
+      setCell(index, {
+        type: selectedStack.type,
+        count: (cell?.count ?? 0) + 1,
+      });
+      return;
+    }
+
+    if (cell) {
+      const { inventory: next, remaining } = addItems(inventory, cell);
+      onChange(next);
+      setCell(index, remaining > 0 ? { ...cell, count: remaining } : null);
+    }
+  };
+
+  // Crafting only goes ahead when the whole result fits in the inventory
+  const craft = () => {
+    if (!recipe) return;
+    const { inventory: next, remaining } = addItems(inventory, recipe.result);
+    if (remaining > 0) return;
+    onChange(next);
+    setGrid(consumeIngredients(grid));
+  };
+
+  const close = () => {
+    let next = inventory;
+    const leftovers: ItemStack[] = [];
+    grid.forEach((cell) => {
+      if (!cell) return;
+      const added = addItems(next, cell);
+      next = added.inventory;
+      if (added.remaining > 0) {
+        leftovers.push({ type: cell.type, count: added.remaining });
+      }
+    });
+    onChange(next);
+    onClose(leftovers);
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.panel}>
+        <Text style={styles.title}>Crafting</Text>
+
+        <View style={[styles.row, styles.crafting]}>
+          <View>
+            {GRID_ROWS.map((row, rowIndex) => (
+              <View key={rowIndex} style={styles.row}>
+                {row.map((index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={slotStyle}
+                    onPress={() => tapCell(index)}
+                  >
+                    {grid[index] && (
+                      <ItemIcon stack={grid[index]} size={slotSize} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.arrow}>{'→'}</Text>
+
+          <TouchableOpacity
+            style={[slotStyle, recipe && styles.resultSlot]}
+            disabled={!recipe}
+            onPress={craft}
+          >
+            {recipe && <ItemIcon stack={recipe.result} size={slotSize} />}
+          </TouchableOpacity>
+          <Text style={styles.resultName}>
+            {recipe ? getItemName(recipe.result.type) : ''}
+          </Text>
+        </View>
+
+        {INVENTORY_ROWS.map((row, rowIndex) => (
+          <View key={rowIndex} style={styles.row}>
+            {row.map((index) => (
+              <TouchableOpacity
+                key={index}
+                style={[slotStyle, selected === index && styles.selectedSlot]}
+                onPress={() => setSelected(selected === index ? null : index)}
+              >
+                {inventory[index] && (
+                  <ItemIcon stack={inventory[index]} size={slotSize} />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+
+        <View style={[styles.row, styles.actions]}>
+          <Text style={styles.hint}>
+            {selectedStack
+              ? `Tap the grid to place ${getItemName(selectedStack.type)}`
+              : 'Pick an item, then tap the grid'}
+          </Text>
+          <TouchableOpacity style={styles.button} onPress={close}>
+            <Text style={styles.buttonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  panel: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(30, 30, 30, 0.95)',
+  },
+  title: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  crafting: {
+    marginBottom: 12,
+  },
+  arrow: {
+    color: 'white',
+    fontSize: 28,
+    marginHorizontal: 12,
+  },
+  resultName: {
+    color: 'white',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  slot: {
+    margin: SLOT_MARGIN,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  selectedSlot: {
+    borderColor: 'white',
+  },
+  resultSlot: {
+    borderColor: 'rgba(74, 202, 40, 0.9)',
+  },
+  actions: {
+    marginTop: 12,
+  },
+  hint: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginLeft: 8,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
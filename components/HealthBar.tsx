@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MAX_HEALTH } from '../game/health';
+
+interface HealthBarProps {
+  // In half hearts, from 0 to MAX_HEALTH
+  health: number;
+}
+
+const HEARTS = Array.from({ length: MAX_HEALTH / 2 }, (_, index) => index);
+
+// A row of hearts: full, half or empty
+export const HealthBar: React.FC<HealthBarProps> = ({ health }) => (
+  <View style={styles.container}>
+    {HEARTS.map((index) => {
+      const halves = health - index * 2;
+      return (
+        <Text
+          key={index}
+          style={[
+            styles.heart,
+            halves >= 2
+              ? styles.fullHeart
+              : halves === 1
+                ? styles.halfHeart
+                : styles.emptyHeart,
+          ]}
+        >
+          {'♥'}
+        </Text>
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  heart: {
+    fontSize: 18,
+    marginRight: 2,
+    textShadowColor: 'black',
+    textShadowRadius: 2,
+  },
+  fullHeart: {
+    color: '#e53935',
+  },
+  halfHeart: {
+    color: '#ef9a9a',
+  },
+  emptyHeart: {
+    color: 'rgba(0, 0, 0, 0.5)',
+  },
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  View,
+  TouchableOpacity,
+  StyleSheet,
+  useWindowDimensions,
+} from 'react-native';
+import { HOTBAR_SIZE, Inventory } from '../game/inventory';
+import { ItemIcon } from './ItemIcon';
+
+interface HotbarProps {
+  inventory: Inventory;
+  selectedSlot: number;
+  onSelect: (slot: number) => void;
+  // Status shown just above the slots, such as health
+  children?: React.ReactNode;
+}
+
+// Room kept free on each side for the joystick and jump button
+const SIDE_CLEARANCE = 180;
+const SLOT_MARGIN = 3;
+const MIN_SLOT_SIZE = 36;
+const MAX_SLOT_SIZE = 70;
+
+export const Hotbar: React.FC<HotbarProps> = ({
+  inventory,
+  selectedSlot,
+  onSelect,
+  children,
+}) => {
+  const { width } = useWindowDimensions();
+
+  // Fit the slots between the side controls, within readable limits
+  const available = width - SIDE_CLEARANCE * 2;
+  const slotSize = Math.max(
+    MIN_SLOT_SIZE,
+    Math.min(MAX_SLOT_SIZE, available / HOTBAR_SIZE - SLOT_MARGIN * 2)
+  );
+  const barWidth = (slotSize + SLOT_MARGIN * 2) * HOTBAR_SIZE;
+
+  return (
+    <View style={[styles.container, { left: (width - barWidth) / 2 }]}>
+      {children}
+      <View style={styles.slots}>
+        {inventory.slice(0, HOTBAR_SIZE).map((stack, index) => (
+          <TouchableOpacity
+            key={index}
+            style={[
+              styles.slot,
+              { width: slotSize, height: slotSize },
+              selectedSlot === index && styles.selectedSlot,
+            ]}
+            onPress={() => onSelect(index)}
+          >
+            {stack && <ItemIcon stack={stack} size={slotSize} />}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 20,
+    zIndex: 10,
+  },
+  slots: {
+    flexDirection: 'row',
+  },
+  slot: {
+    margin: SLOT_MARGIN,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  selectedSlot: {
+    borderColor: 'rgba(255, 255, 255, 0.9)',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+});
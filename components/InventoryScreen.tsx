@@ -0,0 +1,306 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  useWindowDimensions,
+} from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import {
+  HOTBAR_SIZE,
+  Inventory,
+  STORAGE_ROWS,
+  addItems,
+  moveStack,
+  removeItems,
+  splitStack,
+} from '../game/inventory';
+import { ItemType, getItemName, getMaxStackSize } from '../game/items';
+import { ItemIcon } from './ItemIcon';
+
+interface InventoryScreenProps {
+  inventory: Inventory;
+  // Items that can be taken without limit, shown above the grid in creative
+  palette?: ItemType[];
+  onChange: (inventory: Inventory) => void;
+  onClose: () => void;
+}
+
+const SLOT_MARGIN = 3;
+const MAX_SLOT_SIZE = 56;
+// Space between the storage grid and the hotbar row
+const HOTBAR_GAP = 12;
+
+// The storage grid followed by the hotbar, as rows of slot indices
+const ROWS = [
+  ...Array.from({ length: STORAGE_ROWS }, (_, row) =>
+    Array.from(
+      { length: HOTBAR_SIZE },
+      (_, column) => HOTBAR_SIZE + row * HOTBAR_SIZE + column
+    )
+  ),
+  Array.from({ length: HOTBAR_SIZE }, (_, column) => column),
+];
+
+export const InventoryScreen: React.FC<InventoryScreenProps> = ({
+  inventory,
+  palette,
+  onChange,
+  onClose,
+}) => {
+  const { width, height } = useWindowDimensions();
+  const [selected, setSelected] = React.useState<number | null>(null);
+  // Slot being dragged and where the finger is, relative to the grid
+  const [drag, setDrag] = React.useState<{
+    from: number;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // Fit every row on screen, leaving room for the title and buttons
+  const slotSize = Math.min(
+    MAX_SLOT_SIZE,
+    (width - 80) / HOTBAR_SIZE - SLOT_MARGIN * 2,
+    (height - 160 - HOTBAR_GAP * 2) / (ROWS.length + (palette ? 1 : 0)) -
+      SLOT_MARGIN * 2
+  );
+  const cell = slotSize + SLOT_MARGIN * 2;
+
+  // Slot under a point in grid coordinates, or null between or outside slots
+  const getSlotAt = (x: number, y: number) => {
+    const column = Math.floor(x / cell);
+    if (column < 0 || column >= HOTBAR_SIZE || y < 0) return null;
+
+    const hotbarTop = STORAGE_ROWS * cell + HOTBAR_GAP;
+    if (y >= hotbarTop) return y < hotbarTop + cell ? column : null;
+
+    const row = Math.floor(y / cell);
+    return row < STORAGE_ROWS ? ROWS[row][column] : null;
+  };
+
+  // Gesture callbacks only touch React state, so they run on the JS thread
+  const dragGesture = Gesture.Pan()
+    .runOnJS(true)
+    .onStart((event) => {
+      // Pans start once the finger has moved, so look up where it went down
+      const from = getSlotAt(
+        event.x - event.translationX,
+        event.y - event.translationY
+      );
+      if (from !== null && inventory[from]) {
+        setDrag({ from, x: event.x, y: event.y });
+      }
+    })
+    .onUpdate((event) => {
+      setDrag((current) => current && { ...current, x: event.x, y: event.y });
+    })
+    .onEnd((event) => {
+      const to = getSlotAt(event.x, event.y);
+      // The gesture may end before the drag state has rendered
+      const from = getSlotAt(
+        event.x - event.translationX,
+        event.y - event.translationY
+      );
+      if (from !== null && to !== null && inventory[from]) {
+        onChange(moveStack(inventory, from, to));
+        setSelected(to);
+      }
+    })
+    .onFinalize(() => setDrag(null));
+
+  const tapGesture = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd((event) => {
+      const slot = getSlotAt(event.x, event.y);
+      setSelected(slot !== null && inventory[slot] ? slot : null);
+    });
+
+  const selectedStack = selected !== null ? inventory[selected] : null;
+  const draggedStack = drag ? inventory[drag.from] : null;
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.panel}>
+        <Text style={styles.title}>Inventory</Text>
+
+        {palette && (
+          <ScrollView
+            horizontal
+            style={[styles.palette, { height: cell }]}
+            contentContainerStyle={styles.row}
+          >
+            {palette.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.slot, { width: slotSize, height: slotSize }]}
+                onPress={() =>
+                  onChange(
+                    addItems(inventory, { type, count: getMaxStackSize(type) })
+                      .inventory
+                  )
+                }
+              >
+                <ItemIcon stack={{ type, count: 1 }} size={slotSize} />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <GestureDetector gesture={Gesture.Exclusive(dragGesture, tapGesture)}>
+          <View>
+            {ROWS.map((row, rowIndex) => (
+              <View
+                key={rowIndex}
+                style={[
+                  styles.row,
+                  rowIndex === STORAGE_ROWS && { marginTop: HOTBAR_GAP },
+                ]}
+              >
+                {row.map((index) => (
+                  <View
+                    key={index}
+                    style={[
+                      styles.slot,
+                      { width: slotSize, height: slotSize },
+                      selected === index && styles.selectedSlot,
+                    ]}
+                  >
+                    {inventory[index] && drag?.from !== index && (
+                      <ItemIcon stack={inventory[index]} size={slotSize} />
+                    )}
+                  </View>
+                ))}
+              </View>
+            ))}
+
+            {drag && draggedStack && (
+              <View
+                pointerEvents='none'
+                style={[
+                  styles.dragGhost,
+                  {
+                    width: slotSize,
+                    height: slotSize,
+                    left: drag.x - slotSize / 2,
+                    top: drag.y - slotSize / 2,
+                  },
+                ]}
+              >
+                <ItemIcon stack={draggedStack} size={slotSize} />
+              </View>
+            )}
+          </View>
+        </GestureDetector>
+
+        <View style={[styles.row, styles.actions]}>
+          <Text style={styles.selectedName}>
+            {selectedStack
+              ? `${getItemName(selectedStack.type)} x${selectedStack.count}`
+              : 'Drag items to move them'}
+          </Text>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              !(selectedStack && selectedStack.count > 1) &&
+                styles.disabledButton,
+            ]}
+            disabled={!(selectedStack && selectedStack.count > 1)}
+            onPress={() =>
+              selected !== null && onChange(splitStack(inventory, selected))
+            }
+          >
+            <Text style={styles.buttonText}>Split</Text>
+          </TouchableOpacity>
+          {palette && (
+            <TouchableOpacity
+              style={[styles.button, !selectedStack && styles.disabledButton]}
+              disabled={!selectedStack}
+              onPress={() => {
+                if (selected === null || !selectedStack) return;
+                onChange(removeItems(inventory, selected, selectedStack.count));
+                setSelected(null);
+              }}
+            >
+              <Text style={styles.buttonText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.button} onPress={onClose}>
+            <Text style={styles.buttonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  panel: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(30, 30, 30, 0.95)',
+  },
+  title: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  slot: {
+    margin: SLOT_MARGIN,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  selectedSlot: {
+    borderColor: 'white',
+  },
+  palette: {
+    flexGrow: 0,
+    marginBottom: HOTBAR_GAP,
+  },
+  dragGhost: {
+    position: 'absolute',
+    justifyContent: 'center',
+    alignItems: 'center',
+    opacity: 0.8,
+  },
+  actions: {
+    marginTop: 12,
+  },
+  selectedName: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginLeft: 8,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
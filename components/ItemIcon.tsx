@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  ItemStack,
+  getItemColor,
+  getToolDefinition,
+  isToolType,
+} from '../game/items';
+
+interface ItemIconProps {
+  stack: ItemStack;
+  // Width and height of the slot the icon sits in
+  size: number;
+}
+
+const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// An item swatch with its stack count, drawn inside an inventory slot
+export const ItemIcon: React.FC<ItemIconProps> = ({ stack, size }) => (
+  <View
+    style={[
+      styles.swatch,
+      {
+        width: size * 0.6,
+        height: size * 0.6,
+        backgroundColor: toCssColor(getItemColor(stack.type)),
+      },
+    ]}
+  >
+    {isToolType(stack.type) && (
+      <Text style={styles.toolLabel} numberOfLines={1}>
+        {getToolDefinition(stack.type).displayName}
+      </Text>
+    )}
+    {stack.count > 1 && <Text style={styles.count}>{stack.count}</Text>}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  swatch: {
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  toolLabel: {
+    color: 'black',
+    fontSize: 8,
+    fontWeight: 'bold',
+  },
+  count: {
+    position: 'absolute',
+    bottom: -6,
+    right: -8,
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+    textShadowColor: 'black',
+    textShadowRadius: 2,
+  },
+});
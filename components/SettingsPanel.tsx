@@ -0,0 +1,176 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { DropMode } from '../game/drops';
+import { RESOURCE_PACKS } from '../game/textures';
+
+export interface GameSettings {
+  viewDistance: number;
+  resourcePack: string;
+  dropMode: DropMode;
+}
+
+interface SettingsPanelProps {
+  settings: GameSettings;
+  onApply: (settings: GameSettings) => void;
+  onClose: () => void;
+}
+
+const DROP_MODES: Array<{ mode: DropMode; label: string }> = [
+  { mode: 'pickup', label: 'On the ground' },
+  { mode: 'direct', label: 'Into inventory' },
+];
+
+const MIN_VIEW_DISTANCE = 1;
+const MAX_VIEW_DISTANCE = 8;
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  onApply,
+  onClose,
+}) => {
+  const [distance, setDistance] = React.useState(settings.viewDistance);
+  const [pack, setPack] = React.useState(settings.resourcePack);
+  const [dropMode, setDropMode] = React.useState(settings.dropMode);
+
+  const changeDistance = (delta: number) => {
+    setDistance((current) =>
+      Math.max(MIN_VIEW_DISTANCE, Math.min(MAX_VIEW_DISTANCE, current + delta))
+    );
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.panel}>
+        <Text style={styles.title}>Settings</Text>
+
+        <Text style={styles.label}>View distance (chunks)</Text>
+        <View style={styles.row}>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => changeDistance(-1)}
+          >
+            <Text style={styles.buttonText}>-</Text>
+          </TouchableOpacity>
+          <Text style={styles.value}>{distance}</Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => changeDistance(1)}
+          >
+            <Text style={styles.buttonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.label}>Resource pack</Text>
+        <View style={styles.row}>
+          {RESOURCE_PACKS.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.button,
+                option.id === pack && styles.selectedButton,
+              ]}
+              onPress={() => setPack(option.id)}
+            >
+              <Text style={styles.buttonText}>{option.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Broken blocks drop</Text>
+        <View style={styles.row}>
+          {DROP_MODES.map((option) => (
+            <TouchableOpacity
+              key={option.mode}
+              style={[
+                styles.button,
+                option.mode === dropMode && styles.selectedButton,
+              ]}
+              onPress={() => setDropMode(option.mode)}
+            >
+              <Text style={styles.buttonText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={[styles.row, styles.actions]}>
+          <TouchableOpacity style={styles.button} onPress={onClose}>
+            <Text style={styles.buttonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.primaryButton]}
+            onPress={() =>
+              onApply({
+                viewDistance: distance,
+                resourcePack: pack,
+                dropMode,
+              })
+            }
+          >
+            <Text style={styles.buttonText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  panel: {
+    width: 360,
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: 'rgba(30, 30, 30, 0.95)',
+  },
+  title: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  label: {
+    color: 'white',
+    fontSize: 14,
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actions: {
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  value: {
+    color: 'white',
+    fontSize: 18,
+    width: 40,
+    textAlign: 'center',
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginLeft: 8,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  primaryButton: {
+    backgroundColor: 'rgba(74, 202, 40, 0.8)',
+  },
+  selectedButton: {
+    borderWidth: 2,
+    borderColor: 'white',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
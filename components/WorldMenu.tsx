@@ -0,0 +1,397 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  StyleSheet,
+} from 'react-native';
+import {
+  DEFAULT_GAME_MODE,
+  GAME_MODES,
+  GameMode,
+  getGameMode,
+} from '../game/modes';
+import { generateSeed } from '../game/random';
+import {
+  WorldInfo,
+  listWorlds,
+  createWorld,
+  renameWorld,
+  duplicateWorld,
+  deleteWorld,
+} from '../game/worlds';
+
+interface WorldMenuProps {
+  onPlay: (world: WorldInfo) => void;
+}
+
+// Dialog shown on top of the world list
+type Dialog =
+  | { mode: 'create'; name: string; seed: string; gameMode: GameMode }
+  | { mode: 'rename'; world: WorldInfo; name: string }
+  | { mode: 'delete'; world: WorldInfo };
+
+const formatDate = (timestamp: number | null) =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+
+export const WorldMenu: React.FC<WorldMenuProps> = ({ onPlay }) => {
+  const [worlds, setWorlds] = React.useState<WorldInfo[] | null>(null);
+  const [dialog, setDialog] = React.useState<Dialog | null>(null);
+
+  const refresh = () => listWorlds().then(setWorlds);
+
+  React.useEffect(() => {
+    refresh();
+  }, []);
+
+  const confirmDialog = async () => {
+    if (!dialog) return;
+
+    if (dialog.mode === 'create') {
+      const world = await createWorld(
+        dialog.name.trim() || 'New World',
+        dialog.seed.trim() || generateSeed(),
+        dialog.gameMode
+      );
+      setDialog(null);
+      onPlay(world);
+      return;
+    }
+
+    if (dialog.mode === 'rename') {
+      await renameWorld(
+        dialog.world.id,
+        dialog.name.trim() || dialog.world.name
+      );
+    } else {
+      await deleteWorld(dialog.world.id);
+    }
+
+    setDialog(null);
+    refresh();
+  };
+
+  const handleDuplicate = async (world: WorldInfo) => {
+    await duplicateWorld(world.id);
+    refresh();
+  };
+
+  const renderDialog = () => {
+    if (!dialog) return null;
+
+    return (
+      <View style={styles.overlay}>
+        <View style={styles.dialog}>
+          {dialog.mode === 'create' && (
+            <>
+              <Text style={styles.dialogTitle}>Create World</Text>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={dialog.name}
+                onChangeText={(name) => setDialog({ ...dialog, name })}
+                placeholder='New World'
+                placeholderTextColor='rgba(255, 255, 255, 0.4)'
+              />
+              <Text style={styles.label}>Seed</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.flex]}
+                  value={dialog.seed}
+                  onChangeText={(seed) => setDialog({ ...dialog, seed })}
+                  autoCapitalize='none'
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={styles.button}
+                  onPress={() => setDialog({ ...dialog, seed: generateSeed() })}
+                >
+                  <Text style={styles.buttonText}>Random</Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.label}>Game mode</Text>
+              <View style={styles.row}>
+                {GAME_MODES.map((option) => (
+                  <TouchableOpacity
+                    key={option.name}
+                    style={[
+                      styles.button,
+                      option.name === dialog.gameMode && styles.selectedButton,
+                    ]}
+                    onPress={() =>
+                      setDialog({ ...dialog, gameMode: option.name })
+                    }
+                  >
+                    <Text style={styles.buttonText}>{option.displayName}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {dialog.mode === 'rename' && (
+            <>
+              <Text style={styles.dialogTitle}>Rename World</Text>
+              <TextInput
+                style={styles.input}
+                value={dialog.name}
+                onChangeText={(name) => setDialog({ ...dialog, name })}
+                autoFocus
+              />
+            </>
+          )}
+
+          {dialog.mode === 'delete' && (
+            <>
+              <Text style={styles.dialogTitle}>Delete World</Text>
+              <Text style={styles.dialogText}>
+                "{dialog.world.name}" will be lost forever.
+              </Text>
+            </>
+          )}
+
+          <View style={[styles.row, styles.dialogActions]}>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => setDialog(null)}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                dialog.mode === 'delete'
+                  ? styles.dangerButton
+                  : styles.primaryButton,
+              ]}
+              onPress={confirmDialog}
+            >
+              <Text style={styles.buttonText}>
+                {dialog.mode === 'create'
+                  ? 'Create'
+                  : dialog.mode === 'rename'
+                    ? 'Rename'
+                    : 'Delete'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>VibeCraft</Text>
+        <TouchableOpacity
+          style={[styles.button, styles.primaryButton]}
+          onPress={() =>
+            setDialog({
+              mode: 'create',
+              name: '',
+              seed: generateSeed(),
+              gameMode: DEFAULT_GAME_MODE,
+            })
+          }
+        >
+          <Text style={styles.buttonText}>Create World</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list}>
+        {worlds === null && <Text style={styles.emptyText}>Loading...</Text>}
+        {worlds?.length === 0 && (
+          <Text style={styles.emptyText}>
+            No worlds yet. Create one to start playing.
+          </Text>
+        )}
+        {worlds?.map((world) => (
+          <View key={world.id} style={styles.worldRow}>
+            <TouchableOpacity
+              style={styles.worldInfo}
+              onPress={() => onPlay(world)}
+            >
+              {world.thumbnail ? (
+                <Image
+                  source={{ uri: world.thumbnail }}
+                  style={styles.thumbnail}
+                />
+              ) : (
+                <View style={[styles.thumbnail, styles.thumbnailPlaceholder]} />
+              )}
+              <View style={styles.flex}>
+                <Text style={styles.worldName}>{world.name}</Text>
+                <Text style={styles.worldDetail}>
+                  {getGameMode(world.gameMode).displayName} - Seed: {world.seed}
+                </Text>
+                <Text style={styles.worldDetail}>
+                  Created: {formatDate(world.createdAt)}
+                </Text>
+                <Text style={styles.worldDetail}>
+                  Last played: {formatDate(world.lastPlayedAt)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            <View style={styles.row}>
+              <TouchableOpacity
+                style={styles.button}
+                onPress={() =>
+                  setDialog({ mode: 'rename', world, name: world.name })
+                }
+              >
+                <Text style={styles.buttonText}>Rename</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.button}
+                onPress={() => handleDuplicate(world)}
+              >
+                <Text style={styles.buttonText}>Duplicate</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.dangerButton]}
+                onPress={() => setDialog({ mode: 'delete', world })}
+              >
+                <Text style={styles.buttonText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+
+      {renderDialog()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#87CEEB',
+    paddingHorizontal: 40,
+    paddingTop: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    color: 'white',
+    fontSize: 36,
+    fontWeight: 'bold',
+  },
+  list: {
+    paddingBottom: 30,
+  },
+  emptyText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  worldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    marginBottom: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  worldInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thumbnail: {
+    width: 128,
+    height: 72,
+    borderRadius: 4,
+    marginRight: 15,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: '#4aca28',
+  },
+  worldName: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  worldDetail: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dialog: {
+    width: 400,
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: 'rgba(30, 30, 30, 0.95)',
+  },
+  dialogTitle: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  dialogText: {
+    color: 'white',
+    fontSize: 14,
+  },
+  dialogActions: {
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  label: {
+    color: 'white',
+    fontSize: 14,
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  input: {
+    height: 40,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    color: 'white',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginLeft: 8,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  primaryButton: {
+    backgroundColor: 'rgba(74, 202, 40, 0.8)',
+  },
+  dangerButton: {
+    backgroundColor: 'rgba(200, 40, 40, 0.8)',
+  },
+  selectedButton: {
+    borderWidth: 2,
+    borderColor: 'white',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
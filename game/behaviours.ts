@@ -0,0 +1,222 @@
+import {
+  AIR,
+  BlockType,
+  getBlockById,
+  getBlockId,
+  getBlockType,
+} from './blocks';
+import { LightSampler, getBlockLight, getSkyLight } from './lighting';
+import { Random } from './random';
+import {
+  StructureRotation,
+  forEachStructureBlock,
+  getFootprint,
+  getStructure,
+} from './structures';
+import { NEIGHBOURS } from './voxels';
+
+// What block behaviours can see and change in the world
+export interface BlockWorld {
+  getBlock: (x: number, y: number, z: number) => number;
+  // Changes a block the way the player does: it is saved, relit, and its
+  // neighbours are notified. Changes the world redoes by itself after a
+  // reload, such as grass spreading, pass save false so they aren't kept as
+  // edits.
+  setBlock: (
+    x: number,
+    y: number,
+    z: number,
+    type: BlockType | null,
+    save?: boolean
+  ) => void;
+  // Removes a block, leaving its drops on the ground
+  breakBlock: (x: number, y: number, z: number) => void;
+  getLight: LightSampler;
+  // Run the block's onScheduledTick after this many ticks
+  schedule: (x: number, y: number, z: number, delay: number) => void;
+  random: Random;
+  // Ticks since the world was created, for getDay in daylight
+  getWorldTime: () => number;
+  // Fraction of the day from midnight, for isNight in daylight
+  getTimeOfDay: () => number;
+}
+
+// How a block reacts to the world around it. Every handler gets the world
+// and the block's own position.
+export interface BlockBehaviour {
+  // A neighbouring block, or the block itself, just changed
+  onNeighbourChange?: (
+    world: BlockWorld,
+    x: number,
+    y: number,
+    z: number
+  ) => void;
+  // A tick this block asked for with schedule came due
+  onScheduledTick?: (
+    world: BlockWorld,
+    x: number,
+    y: number,
+    z: number
+  ) => void;
+  // Loaded blocks are picked at random every tick, which suits slow changes
+  // such as plants growing
+  onRandomTick?: (world: BlockWorld, x: number, y: number, z: number) => void;
+}
+
+// Light needed for grass to spread and saplings to grow
+const MIN_GROWTH_LIGHT = 9;
+
+// Leaves further than this from any wood, counted through leaves, decay
+const LEAF_DECAY_DISTANCE = 4;
+
+// Ticks between leaves losing a neighbour and checking their own support,
+// picked at random so a whole canopy doesn't vanish at once
+const LEAF_DECAY_DELAY: readonly [number, number] = [20, 80];
+
+// Ticks for falling sand to drop one block
+const SAND_FALL_DELAY = 2;
+
+// Chance that a random tick grows a sapling into a tree
+const SAPLING_GROWTH_CHANCE = 0.3;
+
+// Structure template a grown sapling turns into
+const SAPLING_TREE = 'oak';
+
+const getLightLevel = (world: BlockWorld, x: number, y: number, z: number) => {
+  const light = world.getLight(x, y, z);
+  return Math.max(getSkyLight(light), getBlockLight(light));
+};
+
+// Grass can't live under blocks that shut out the light completely
+const isCovered = (world: BlockWorld, x: number, y: number, z: number) =>
+  getBlockById(world.getBlock(x, y + 1, z))?.transparent === false;
+
+// Covered grass dies back to dirt; otherwise it creeps onto lit dirt nearby,
+// up to three blocks down or one up
+const spreadGrass = (world: BlockWorld, x: number, y: number, z: number) => {
+  if (isCovered(world, x, y, z)) {
+    world.setBlock(x, y, z, 'dirt', false);
+    return;
+  }
+
+  const tx = x + Math.floor(world.random() * 3) - 1;
+  const ty = y + Math.floor(world.random() * 5) - 3;
+  const tz = z + Math.floor(world.random() * 3) - 1;
+  if (
+    world.getBlock(tx, ty, tz) === getBlockId('dirt') &&
+    !isCovered(world, tx, ty, tz) &&
+    getLightLevel(world, tx, ty + 1, tz) >= MIN_GROWTH_LIGHT
+  ) {
+    world.setBlock(tx, ty, tz, 'grass', false);
+  }
+};
+
+// Search outwards through leaves for wood holding them up
+const isLeafSupported = (
+  world: BlockWorld,
+  x: number,
+  y: number,
+  z: number
+) => {
+  const leaves = getBlockId('leaves');
+  const wood = getBlockId('wood');
+  const seen = new Set([`${x},${y},${z}`]);
+  let frontier = [[x, y, z]];
+
+  for (let distance = 1; distance <= LEAF_DECAY_DISTANCE; distance++) {
+    const next: number[][] = [];
+    for (const [cx, cy, cz] of frontier) {
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        const nz = cz + dz;
+        const key = `${nx},${ny},${nz}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const id = world.getBlock(nx, ny, nz);
+        if (id === wood) return true;
+        if (id === leaves) next.push([nx, ny, nz]);
+      }
+    }
+    frontier = next;
+  }
+  return false;
+};
+
+const decayLeaves = (world: BlockWorld, x: number, y: number, z: number) => {
+  if (!isLeafSupported(world, x, y, z)) world.breakBlock(x, y, z);
+};
+
+// Sand drops one cell at a time into air or fluids until it lands
+const fallSand = (world: BlockWorld, x: number, y: number, z: number) => {
+  const below = getBlockType(world.getBlock(x, y - 1, z));
+  if (below !== null && below !== 'water') return;
+  world.setBlock(x, y, z, null);
+  world.setBlock(x, y - 1, z, 'sand');
+};
+
+// A lit sapling on soil grows into a tree when there is room for it
+const growSapling = (world: BlockWorld, x: number, y: number, z: number) => {
+  if (world.random() >= SAPLING_GROWTH_CHANCE) return;
+  if (getLightLevel(world, x, y, z) < MIN_GROWTH_LIGHT) return;
+  const ground = getBlockType(world.getBlock(x, y - 1, z));
+  if (ground !== 'dirt' && ground !== 'grass') return;
+
+  const structure = getStructure(SAPLING_TREE);
+  if (!structure) return;
+  const rotation = Math.floor(world.random() * 4) as StructureRotation;
+  const [width, depth] = getFootprint(structure, rotation);
+
+  // The trunk stands in the middle of the template, where the sapling is
+  const placement = {
+    structure,
+    x: x - Math.floor((width - 1) / 2),
+    y,
+    z: z - Math.floor((depth - 1) / 2),
+    rotation,
+    mirror: world.random() < 0.5,
+  };
+
+  let blocked = false;
+  forEachStructureBlock(placement, (bx, by, bz) => {
+    const type = getBlockType(world.getBlock(bx, by, bz));
+    if (type !== null && type !== 'leaves' && type !== 'sapling') {
+      blocked = true;
+    }
+  });
+  if (blocked) return;
+
+  forEachStructureBlock(placement, (bx, by, bz, id) => {
+    world.setBlock(bx, by, bz, id === AIR ? null : getBlockType(id));
+  });
+};
+
+export const BLOCK_BEHAVIOURS: Partial<Record<BlockType, BlockBehaviour>> = {
+  grass: {
+    onRandomTick: spreadGrass,
+  },
+  // Leaves only check their support after something next to them changed,
+  // so a canopy decays once its wood is cut, while the loose leaves of
+  // generated trees stay put
+  leaves: {
+    onNeighbourChange: (world, x, y, z) => {
+      const [min, max] = LEAF_DECAY_DELAY;
+      world.schedule(x, y, z, min + Math.floor(world.random() * (max - min)));
+    },
+    onScheduledTick: decayLeaves,
+  },
+  sand: {
+    onNeighbourChange: (world, x, y, z) =>
+      world.schedule(x, y, z, SAND_FALL_DELAY),
+    onScheduledTick: fallSand,
+  },
+  sapling: {
+    onRandomTick: growSapling,
+  },
+};
+
+export const getBlockBehaviour = (id: number): BlockBehaviour | null => {
+  const type = getBlockType(id);
+  return (type && BLOCK_BEHAVIOURS[type]) ?? null;
+};
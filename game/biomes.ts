@@ -0,0 +1,189 @@
+import { BlockType } from './blocks';
+import { Noise, fractalNoise2D } from './noise';
+import { Random } from './random';
+import { TerrainConfig } from './terrain';
+
+// Kinds of tree the terrain generator knows how to grow
+export type TreeShape = 'oak' | 'pine' | 'cactus';
+
+export interface BiomeDefinition {
+  name: string;
+  displayName: string;
+  // Climate the biome is centred on, with temperature and humidity roughly in
+  // [-0.6, 0.6]. Biomes without one are only picked by height.
+  climate?: { temperature: number; humidity: number };
+  // Replaces the climate biome on columns at or below this height
+  maxHeight?: number;
+  // Surface height where the height noise is at its lowest
+  baseHeight: number;
+  // Difference between the lowest and highest possible surface
+  heightRange: number;
+  // Top block, and the blocks between it and the stone below
+  surface: BlockType;
+  subsurface: BlockType;
+  // Surfaces at or above this height are covered in snow
+  snowLine?: number;
+  // Patches of bare stone appear on high ground
+  stoneOutcrops: boolean;
+  // Chance of a tree growing on a column, and its shape
+  treeChance: number;
+  tree?: TreeShape;
+}
+
+// Declare biomes with their literal names kept, so BiomeType stays a union
+const defineBiomes = <const T extends readonly BiomeDefinition[]>(biomes: T) =>
+  biomes;
+
+// Every biome in the game. Climate biomes blend into their neighbours.
+export const BIOMES = defineBiomes([
+  {
+    name: 'plains',
+    displayName: 'Plains',
+    climate: { temperature: 0.1, humidity: -0.1 },
+    baseHeight: -2,
+    heightRange: 8,
+    surface: 'grass',
+    subsurface: 'dirt',
+    stoneOutcrops: true,
+    treeChance: 0.01,
+    tree: 'oak',
+  },
+  {
+    name: 'forest',
+    displayName: 'Forest',
+    climate: { temperature: 0.1, humidity: 0.35 },
+    baseHeight: -1,
+    heightRange: 10,
+    surface: 'grass',
+    subsurface: 'dirt',
+    stoneOutcrops: true,
+    treeChance: 0.1,
+    tree: 'oak',
+  },
+  {
+    name: 'desert',
+    displayName: 'Desert',
+    climate: { temperature: 0.3, humidity: -0.3 },
+    baseHeight: 0,
+    heightRange: 5,
+    surface: 'sand',
+    subsurface: 'sand',
+    stoneOutcrops: false,
+    treeChance: 0.01,
+    tree: 'cactus',
+  },
+  {
+    name: 'tundra',
+    displayName: 'Snowy Tundra',
+    climate: { temperature: -0.3, humidity: 0.15 },
+    baseHeight: -1,
+    heightRange: 7,
+    surface: 'snow',
+    subsurface: 'dirt',
+    stoneOutcrops: false,
+    treeChance: 0.02,
+    tree: 'pine',
+  },
+  {
+    name: 'mountains',
+    displayName: 'Mountains',
+    climate: { temperature: -0.15, humidity: -0.35 },
+    baseHeight: 2,
+    heightRange: 36,
+    surface: 'stone',
+    subsurface: 'stone',
+    snowLine: 22,
+    stoneOutcrops: false,
+    treeChance: 0.015,
+    tree: 'pine',
+  },
+  {
+    name: 'beach',
+    displayName: 'Beach',
+    // Shores and sea floors, up to one block above the default sea level
+    maxHeight: 2,
+    baseHeight: 0,
+    heightRange: 0,
+    surface: 'sand',
+    subsurface: 'sand',
+    stoneOutcrops: false,
+    treeChance: 0,
+  },
+]);
+
+export type BiomeType = (typeof BIOMES)[number]['name'];
+
+const CLIMATE_BIOMES: BiomeDefinition[] = BIOMES.filter(
+  (biome: BiomeDefinition) => biome.climate !== undefined
+);
+const HEIGHT_BIOMES: BiomeDefinition[] = BIOMES.filter(
+  (biome: BiomeDefinition) => biome.maxHeight !== undefined
+);
+
+// Climate layers are read far from the height noise so they don't line up
+const TEMPERATURE_OFFSET = 10000;
+const HUMIDITY_OFFSET = -10000;
+
+// Everything the terrain generator needs to know about one column
+export interface BiomeColumn {
+  biome: BiomeDefinition;
+  // Surface height, blended between nearby biomes
+  height: number;
+  // Tree chance, blended so forests thin out at their edges
+  treeChance: number;
+}
+
+// Work out the biome and surface of a column. Each climate biome is weighted
+// by how close the column's climate is to its own, so heights and tree
+// density change smoothly across borders. The surface biome is then drawn
+// by weight, which mixes surface blocks along the border.
+export const getBiomeColumn = (
+  noise: Noise,
+  x: number,
+  z: number,
+  config: TerrainConfig,
+  random: Random
+): BiomeColumn => {
+  const temperature = fractalNoise2D(
+    noise,
+    x + TEMPERATURE_OFFSET,
+    z + TEMPERATURE_OFFSET,
+    config.temperature
+  );
+  const humidity = fractalNoise2D(
+    noise,
+    x + HUMIDITY_OFFSET,
+    z + HUMIDITY_OFFSET,
+    config.humidity
+  );
+  const heightNoise = (fractalNoise2D(noise, x, z, config.height) + 1) / 2;
+
+  const weights = CLIMATE_BIOMES.map((biome) => {
+    const dt = temperature - biome.climate!.temperature;
+    const dh = humidity - biome.climate!.humidity;
+    return Math.exp(-(dt * dt + dh * dh) / config.biomeBlend ** 2);
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let height = 0;
+  let treeChance = 0;
+  let pick = random() * totalWeight;
+  let biome = CLIMATE_BIOMES[0];
+  CLIMATE_BIOMES.forEach((candidate, i) => {
+    const weight = weights[i] / totalWeight;
+    height +=
+      weight * (candidate.baseHeight + heightNoise * candidate.heightRange);
+    treeChance += weight * candidate.treeChance;
+
+    if (pick >= 0 && pick < weights[i]) biome = candidate;
+    pick -= weights[i];
+  });
+  height = Math.floor(height);
+
+  const lowland = HEIGHT_BIOMES.find(
+    (candidate) => height <= candidate.maxHeight!
+  );
+  if (lowland) return { biome: lowland, height, treeChance: 0 };
+
+  return { biome, height, treeChance };
+};
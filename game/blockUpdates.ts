@@ -0,0 +1,107 @@
+import { BlockWorld, getBlockBehaviour } from './behaviours';
+import {
+  CHUNK_SIZE,
+  ChunkCoord,
+  WORLD_HEIGHT,
+  WORLD_MIN_Y,
+  blockKey,
+  worldToChunk,
+} from './chunks';
+import { NEIGHBOURS, Point } from './voxels';
+
+// Blocks picked for a random tick in each loaded chunk every tick, so each
+// block gets one about every minute
+export const RANDOM_TICKS_PER_CHUNK = 4;
+
+// Drives block behaviours: neighbour notifications, ticks blocks schedule
+// for themselves, and random ticks across the loaded chunks
+export interface BlockUpdates {
+  // A block changed; its neighbours and the block itself react next tick
+  notify: (x: number, y: number, z: number) => void;
+  // Run the block's scheduled tick after a number of ticks. A cell only
+  // holds one scheduled tick; later requests keep the earlier one.
+  schedule: (x: number, y: number, z: number, delay: number) => void;
+  tick: (world: BlockWorld, chunks: Iterable<ChunkCoord>) => void;
+  // Forget pending updates inside an unloaded chunk
+  deleteChunk: (cx: number, cz: number) => void;
+}
+
+export const createBlockUpdates = (): BlockUpdates => {
+  // Notifications gathered since the last tick; handling them may gather
+  // more, which wait for the tick after, so chains of updates can't recurse
+  let notified = new Map<string, Point>();
+  const scheduled = new Map<string, Point & { due: number }>();
+  let now = 0;
+
+  const notify = (x: number, y: number, z: number) => {
+    [[0, 0, 0], ...NEIGHBOURS].forEach(([dx, dy, dz]) => {
+      const nx = Math.round(x) + dx;
+      const ny = Math.round(y) + dy;
+      const nz = Math.round(z) + dz;
+      notified.set(blockKey(nx, ny, nz), { x: nx, y: ny, z: nz });
+    });
+  };
+
+  const schedule = (x: number, y: number, z: number, delay: number) => {
+    const key = blockKey(x, y, z);
+    if (scheduled.has(key)) return;
+    scheduled.set(key, {
+      x: Math.round(x),
+      y: Math.round(y),
+      z: Math.round(z),
+      due: now + Math.max(1, delay),
+    });
+  };
+
+  const tick = (world: BlockWorld, chunks: Iterable<ChunkCoord>) => {
+    now++;
+
+    const neighbours = notified;
+    notified = new Map();
+    neighbours.forEach(({ x, y, z }) => {
+      getBlockBehaviour(world.getBlock(x, y, z))?.onNeighbourChange?.(
+        world,
+        x,
+        y,
+        z
+      );
+    });
+
+    const due = [...scheduled.entries()].filter(([, cell]) => cell.due <= now);
+    due.forEach(([key, { x, y, z }]) => {
+      scheduled.delete(key);
+      getBlockBehaviour(world.getBlock(x, y, z))?.onScheduledTick?.(
+        world,
+        x,
+        y,
+        z
+      );
+    });
+
+    for (const { cx, cz } of chunks) {
+      for (let i = 0; i < RANDOM_TICKS_PER_CHUNK; i++) {
+        const x = cx * CHUNK_SIZE + Math.floor(world.random() * CHUNK_SIZE);
+        const y = WORLD_MIN_Y + Math.floor(world.random() * WORLD_HEIGHT);
+        const z = cz * CHUNK_SIZE + Math.floor(world.random() * CHUNK_SIZE);
+        getBlockBehaviour(world.getBlock(x, y, z))?.onRandomTick?.(
+          world,
+          x,
+          y,
+          z
+        );
+      }
+    }
+  };
+
+  const deleteChunk = (cx: number, cz: number) => {
+    const inChunk = ({ x, z }: Point) =>
+      worldToChunk(x) === cx && worldToChunk(z) === cz;
+    [notified, scheduled].forEach((updates: Map<string, Point>) => {
+      [...updates.entries()]
+        .filter(([, cell]) => inChunk(cell))
+        .forEach(([key]) => updates.delete(key));
+    });
+  };
+
+  return { notify, schedule, tick, deleteChunk };
+};
@@ -0,0 +1,395 @@
+// Numeric block ids used in voxel storage, 0 is always air
+export const AIR = 0;
+
+// Faces of a block, in the same order as three.js BoxGeometry material groups
+export enum BlockFace {
+  Right, // +X
+  Left, // -X
+  Top, // +Y
+  Bottom, // -Y
+  Front, // +Z
+  Back, // -Z
+}
+
+// A value for every face of a block; top, bottom and side override all
+export interface BlockFaces<T> {
+  all: T;
+  top?: T;
+  bottom?: T;
+  side?: T;
+}
+
+// Kinds of tools that break some blocks faster
+export type ToolKind = 'pickaxe' | 'axe' | 'shovel';
+
+// What breaking a block gives the player
+export interface BlockDrop {
+  // Name of a block, tool or material
+  item: string;
+  count: number;
+  // Chance of dropping at all, 1 when left out
+  chance?: number;
+}
+
+// Small boxes drawn on some blocks to break up their flat faces
+export interface DecorationRule {
+  // Chance that a block gets these boxes at all
+  chance: number;
+  // Number of boxes, picked between min and max
+  count: readonly [number, number];
+  // On the top face, on a random face, on the front face, or inside the block
+  placement: 'top' | 'face' | 'front' | 'inside';
+  // Smallest box, grown by up to sizeVariation on each axis
+  size: readonly [number, number, number];
+  sizeVariation?: readonly [number, number, number];
+  // Turn boxes around the vertical axis, lean them slightly, or spin them freely
+  rotation?: 'yaw' | 'tilt' | 'random';
+  // Each box picks one of these
+  colors: readonly number[];
+}
+
+export interface BlockDefinition {
+  // Stored in voxels, so it must never change once worlds use it
+  id: number;
+  // Stored in saves and used in code
+  name: string;
+  displayName: string;
+  colors: BlockFaces<number>;
+  // Texture names, used instead of colors where present
+  textures?: BlockFaces<string>;
+  // Seconds to break by hand; Infinity for blocks that can't be broken
+  hardness: number;
+  // Tool that breaks this block faster
+  tool?: ToolKind;
+  // Faces behind transparent blocks are still drawn
+  transparent: boolean;
+  // Solid blocks stop the player
+  solid: boolean;
+  // Light level the block gives off, up to 15
+  light?: number;
+  // Fluids flow into the cells around them, can't be targeted and are drawn
+  // see-through; the player swims in them
+  fluid?: boolean;
+  // Defaults to one of the block itself
+  drops?: readonly BlockDrop[];
+  decorations?: readonly DecorationRule[];
+}
+
+// Declare blocks with their literal names kept, so BlockType stays a union
+const defineBlocks = <const T extends readonly BlockDefinition[]>(blocks: T) =>
+  blocks;
+
+// Every block in the game. Add new blocks here; nothing else needs to change.
+export const BLOCKS = defineBlocks([
+  {
+    id: 1,
+    name: 'grass',
+    displayName: 'Grass',
+    colors: { all: 0x4aca28, bottom: 0x8b5a2b }, // Grass shows dirt underneath
+    textures: { all: 'grass_side', top: 'grass_top', bottom: 'dirt' },
+    hardness: 0.9,
+    tool: 'shovel',
+    transparent: false,
+    solid: true,
+    drops: [{ item: 'dirt', count: 1 }],
+    decorations: [
+      {
+        // Small grass tufts on top
+        chance: 0.3,
+        count: [1, 3],
+        placement: 'top',
+        size: [0.08, 0.1, 0.08],
+        sizeVariation: [0, 0.1, 0],
+        rotation: 'yaw',
+        colors: [0x66dd44],
+      },
+    ],
+  },
+  {
+    id: 2,
+    name: 'dirt',
+    displayName: 'Dirt',
+    colors: { all: 0x8b5a2b },
+    textures: { all: 'dirt' },
+    hardness: 0.75,
+    tool: 'shovel',
+    transparent: false,
+    solid: true,
+    decorations: [
+      {
+        // Small pebbles or roots
+        chance: 0.06,
+        count: [1, 1],
+        placement: 'inside',
+        size: [0.06, 0.02, 0.06],
+        sizeVariation: [0.06, 0.02, 0.06],
+        colors: [0x554422, 0x665533],
+      },
+    ],
+  },
+  {
+    id: 3,
+    name: 'stone',
+    displayName: 'Stone',
+    colors: { all: 0x888888 },
+    textures: { all: 'stone' },
+    hardness: 5,
+    tool: 'pickaxe',
+    transparent: false,
+    solid: true,
+    decorations: [
+      {
+        // Small rock details
+        chance: 0.09,
+        count: [1, 1],
+        placement: 'face',
+        size: [0.1, 0.03, 0.1],
+        sizeVariation: [0.1, 0.03, 0.1],
+        colors: [0x777777],
+      },
+    ],
+  },
+  {
+    id: 4,
+    name: 'bedrock',
+    displayName: 'Bedrock',
+    colors: { all: 0x333333 },
+    textures: { all: 'bedrock' },
+    hardness: Infinity,
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 5,
+    name: 'wood',
+    displayName: 'Wood',
+    colors: { all: 0x8b4513 },
+    textures: { all: 'wood_side', top: 'wood_top', bottom: 'wood_top' },
+    hardness: 3,
+    tool: 'axe',
+    transparent: false,
+    solid: true,
+    decorations: [
+      {
+        // Wood grain lines
+        chance: 0.15,
+        count: [2, 4],
+        placement: 'front',
+        size: [0.8, 0.02, 0.1],
+        rotation: 'tilt',
+        colors: [0x6b4226],
+      },
+    ],
+  },
+  {
+    id: 6,
+    name: 'leaves',
+    displayName: 'Leaves',
+    colors: { all: 0x2e8b57 },
+    textures: { all: 'leaves' },
+    hardness: 0.3,
+    transparent: true,
+    solid: true,
+    drops: [{ item: 'sapling', count: 1, chance: 0.1 }],
+    decorations: [
+      {
+        // Small leaf clusters
+        chance: 0.3,
+        count: [3, 6],
+        placement: 'inside',
+        size: [0.15, 0.15, 0.15],
+        rotation: 'random',
+        colors: [0x3da35d],
+      },
+    ],
+  },
+  {
+    id: 7,
+    name: 'sapling',
+    displayName: 'Sapling',
+    colors: { all: 0x3b9d33 },
+    textures: { all: 'sapling' },
+    hardness: 0,
+    transparent: true,
+    solid: false,
+  },
+  {
+    id: 8,
+    name: 'planks',
+    displayName: 'Planks',
+    colors: { all: 0xc19a6b },
+    textures: { all: 'planks' },
+    hardness: 2,
+    tool: 'axe',
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 9,
+    name: 'torch',
+    displayName: 'Torch',
+    colors: { all: 0xffb84d },
+    textures: { all: 'torch' },
+    hardness: 0,
+    transparent: true,
+    solid: false,
+    light: 14,
+  },
+  {
+    id: 10,
+    name: 'sand',
+    displayName: 'Sand',
+    colors: { all: 0xdbcf8e },
+    textures: { all: 'sand' },
+    hardness: 0.75,
+    tool: 'shovel',
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 11,
+    name: 'snow',
+    displayName: 'Snow',
+    colors: { all: 0xf2f6fa },
+    textures: { all: 'snow' },
+    hardness: 0.5,
+    tool: 'shovel',
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 12,
+    name: 'cactus',
+    displayName: 'Cactus',
+    colors: { all: 0x3f8f38, top: 0x56a84c, bottom: 0x56a84c },
+    textures: { all: 'cactus_side', top: 'cactus_top', bottom: 'cactus_top' },
+    hardness: 0.6,
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 13,
+    name: 'coal_ore',
+    displayName: 'Coal Ore',
+    colors: { all: 0x2b2b2b },
+    textures: { all: 'coal_ore' },
+    hardness: 6,
+    tool: 'pickaxe',
+    transparent: false,
+    solid: true,
+    drops: [{ item: 'coal', count: 1 }],
+  },
+  {
+    id: 14,
+    name: 'iron_ore',
+    displayName: 'Iron Ore',
+    colors: { all: 0xd8a47f },
+    textures: { all: 'iron_ore' },
+    hardness: 7,
+    tool: 'pickaxe',
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 15,
+    name: 'gold_ore',
+    displayName: 'Gold Ore',
+    colors: { all: 0xf5d33c },
+    textures: { all: 'gold_ore' },
+    hardness: 7,
+    tool: 'pickaxe',
+    transparent: false,
+    solid: true,
+  },
+  {
+    id: 16,
+    name: 'diamond_ore',
+    displayName: 'Diamond Ore',
+    colors: { all: 0x5fe0e6 },
+    textures: { all: 'diamond_ore' },
+    hardness: 8,
+    tool: 'pickaxe',
+    transparent: false,
+    solid: true,
+    drops: [{ item: 'diamond', count: 1 }],
+  },
+  {
+    id: 17,
+    name: 'water',
+    displayName: 'Water',
+    colors: { all: 0x3f76e4 },
+    textures: { all: 'water' },
+    hardness: Infinity,
+    transparent: true,
+    solid: false,
+    fluid: true,
+    drops: [],
+  },
+]);
+
+export type BlockType = (typeof BLOCKS)[number]['name'];
+
+export const BLOCK_TYPES: BlockType[] = BLOCKS.map((block) => block.name);
+
+const blocksByName = new Map<string, BlockDefinition>(
+  BLOCKS.map((block) => [block.name, block])
+);
+const blocksById: Array<BlockDefinition | undefined> = [];
+
+// Catch mistakes in the registry as soon as the game starts
+BLOCKS.forEach((block: BlockDefinition) => {
+  if (!Number.isInteger(block.id) || block.id <= AIR || block.id > 255) {
+    throw new Error(`Block "${block.name}" has invalid id ${block.id}`);
+  }
+  if (blocksById[block.id]) {
+    throw new Error(
+      `Blocks "${blocksById[block.id]!.name}" and "${block.name}" share id ${block.id}`
+    );
+  }
+  blocksById[block.id] = block;
+
+  const light = block.light ?? 0;
+  if (!Number.isInteger(light) || light < 0 || light > 15) {
+    throw new Error(`Block "${block.name}" has invalid light ${light}`);
+  }
+});
+
+export const isBlockType = (value: unknown): value is BlockType =>
+  typeof value === 'string' && blocksByName.has(value);
+
+export const getBlockDefinition = (type: BlockType): BlockDefinition =>
+  blocksByName.get(type)!;
+
+// Definition of the block stored under a voxel id, or null for air
+export const getBlockById = (id: number): BlockDefinition | null =>
+  blocksById[id] ?? null;
+
+export const getBlockId = (type: BlockType) => getBlockDefinition(type).id;
+
+export const getBlockType = (id: number): BlockType | null =>
+  (getBlockById(id)?.name as BlockType | undefined) ?? null;
+
+export const isTransparent = (type: BlockType) =>
+  getBlockDefinition(type).transparent;
+
+export const isSolid = (type: BlockType) => getBlockDefinition(type).solid;
+
+// Pick the value for one face from a block's per-face values
+export const getFaceValue = <T>(faces: BlockFaces<T>, face: BlockFace): T => {
+  switch (face) {
+    case BlockFace.Top:
+      return faces.top ?? faces.all;
+    case BlockFace.Bottom:
+      return faces.bottom ?? faces.all;
+    default:
+      return faces.side ?? faces.all;
+  }
+};
+
+// Color of one face of a block
+export const getFaceColor = (type: BlockType, face: BlockFace): number =>
+  getFaceValue(getBlockDefinition(type).colors, face);
+
+// What breaking a block gives the player
+export const getBlockDrops = (type: BlockType): readonly BlockDrop[] =>
+  getBlockDefinition(type).drops ?? [{ item: type, count: 1 }];
@@ -0,0 +1,69 @@
+// Size of a chunk along the X and Z axes, in blocks
+export const CHUNK_SIZE = 16;
+
+// Vertical extent of the world; blocks outside it are always air
+export const WORLD_MIN_Y = -8;
+export const WORLD_HEIGHT = 64;
+
+// Number of voxels stored per chunk
+export const CHUNK_VOLUME = CHUNK_SIZE * WORLD_HEIGHT * CHUNK_SIZE;
+
+// Number of chunks kept loaded around the player in each direction
+export const DEFAULT_VIEW_DISTANCE = 1;
+
+// Maximum number of chunks generated per frame to avoid frame spikes
+export const CHUNK_LOADS_PER_FRAME = 1;
+
+// Maximum number of chunk meshes rebuilt per frame after neighbours change
+export const CHUNK_MESHES_PER_FRAME = 2;
+
+export interface ChunkCoord {
+  cx: number;
+  cz: number;
+}
+
+export const chunkKey = (cx: number, cz: number) => `${cx},${cz}`;
+
+// Convert a world block coordinate to the coordinate of its chunk
+export const worldToChunk = (value: number) =>
+  Math.floor(Math.round(value) / CHUNK_SIZE);
+
+// Position of a block inside its chunk (always 0..CHUNK_SIZE - 1)
+export const worldToLocal = (value: number) => {
+  const local = Math.round(value) % CHUNK_SIZE;
+  return local < 0 ? local + CHUNK_SIZE : local;
+};
+
+// Index of a voxel inside a chunk's block array, laid out as [y][z][x]
+export const voxelIndex = (localX: number, y: number, localZ: number) =>
+  ((y - WORLD_MIN_Y) * CHUNK_SIZE + localZ) * CHUNK_SIZE + localX;
+
+export const isInsideWorldHeight = (y: number) =>
+  y >= WORLD_MIN_Y && y < WORLD_MIN_Y + WORLD_HEIGHT;
+
+export const blockKey = (x: number, y: number, z: number) =>
+  `${Math.round(x)},${Math.round(y)},${Math.round(z)}`;
+
+// Distance between two chunks, measured as the larger of the two axes
+export const chunkDistance = (a: ChunkCoord, b: ChunkCoord) =>
+  Math.max(Math.abs(a.cx - b.cx), Math.abs(a.cz - b.cz));
+
+// List every chunk within viewDistance of the center, closest first
+export const getChunksInRange = (
+  center: ChunkCoord,
+  viewDistance: number
+): ChunkCoord[] => {
+  const coords: ChunkCoord[] = [];
+
+  for (let dx = -viewDistance; dx <= viewDistance; dx++) {
+    for (let dz = -viewDistance; dz <= viewDistance; dz++) {
+      coords.push({ cx: center.cx + dx, cz: center.cz + dz });
+    }
+  }
+
+  return coords.sort(
+    (a, b) =>
+      Math.hypot(a.cx - center.cx, a.cz - center.cz) -
+      Math.hypot(b.cx - center.cx, b.cz - center.cz)
+  );
+};
@@ -0,0 +1,164 @@
+import RECIPE_DATA from './recipes.json';
+import { InventorySlot } from './inventory';
+import { ItemStack, ItemType, getMaxStackSize, isItemType } from './items';
+
+// The crafting grid is square, with cells stored row by row
+export const CRAFTING_SIZE = 3;
+export const CRAFTING_CELLS = CRAFTING_SIZE * CRAFTING_SIZE;
+
+// A recipe as written in recipes.json. Shaped recipes draw their layout with
+// one character per cell (a space for an empty cell) and a key from
+// characters to items; shapeless recipes list items in any order.
+export interface RecipeData {
+  type: string;
+  pattern?: string[];
+  key?: Record<string, string>;
+  ingredients?: string[];
+  result: { item: string; count?: number };
+}
+
+export type Recipe =
+  | {
+      type: 'shaped';
+      // Rows of the pattern, padded to the same width
+      cells: Array<Array<ItemType | null>>;
+      result: ItemStack;
+    }
+  | {
+      type: 'shapeless';
+      ingredients: ItemType[];
+      result: ItemStack;
+    };
+
+const parseItem = (name: string, recipe: number): ItemType => {
+  if (!isItemType(name)) {
+    throw new Error(`Recipe ${recipe} uses unknown item "${name}"`);
+  }
+  return name;
+};
+
+const parseRecipe = (data: RecipeData, index: number): Recipe => {
+  const resultType = parseItem(data.result.item, index);
+  const count = data.result.count ?? 1;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Recipe ${index} makes an invalid count ${count}`);
+  }
+  const result = {
+    type: resultType,
+    count: Math.min(count, getMaxStackSize(resultType)),
+  };
+
+  if (data.type === 'shapeless') {
+    const ingredients = (data.ingredients ?? []).map((name) =>
+      parseItem(name, index)
+    );
+    if (ingredients.length === 0 || ingredients.length > CRAFTING_CELLS) {
+      throw new Error(`Recipe ${index} needs 1 to ${CRAFTING_CELLS} items`);
+    }
+    return { type: 'shapeless', ingredients, result };
+  }
+
+  if (data.type === 'shaped') {
+    const pattern = data.pattern ?? [];
+    const width = Math.max(0, ...pattern.map((row) => row.length));
+    if (pattern.length === 0 || pattern.length > CRAFTING_SIZE) {
+      throw new Error(`Recipe ${index} has ${pattern.length} pattern rows`);
+    }
+    if (width > CRAFTING_SIZE) {
+      throw new Error(`Recipe ${index} has a pattern ${width} cells wide`);
+    }
+
+    const cells = pattern.map((row) =>
+      Array.from(row.padEnd(width), (char) => {
+        if (char === ' ') return null;
+        const name = data.key?.[char];
+        if (!name) {
+          throw new Error(`Recipe ${index} has no key for "${char}"`);
+        }
+        return parseItem(name, index);
+      })
+    );
+    return { type: 'shaped', cells, result };
+  }
+
+  throw new Error(`Recipe ${index} has unknown type "${data.type}"`);
+};
+
+// Check recipe data against the registries, so a typo fails on startup
+// instead of making a recipe that can never be crafted
+export const parseRecipes = (data: RecipeData[]): Recipe[] =>
+  data.map(parseRecipe);
+
+export const RECIPES = parseRecipes(RECIPE_DATA as RecipeData[]);
+
+export const createCraftingGrid = (): InventorySlot[] =>
+  new Array<InventorySlot>(CRAFTING_CELLS).fill(null);
+
+// Smallest block of rows and columns holding every item in the grid
+const trimGrid = (grid: InventorySlot[]) => {
+  const rows: number[] = [];
+  const columns: number[] = [];
+  grid.forEach((slot, index) => {
+    if (!slot) return;
+    rows.push(Math.floor(index / CRAFTING_SIZE));
+    columns.push(index % CRAFTING_SIZE);
+  });
+  if (rows.length === 0) return [];
+
+  const top = Math.min(...rows);
+  const left = Math.min(...columns);
+  const width = Math.max(...columns) - left + 1;
+  return Array.from({ length: Math.max(...rows) - top + 1 }, (_, row) =>
+    Array.from(
+      { length: width },
+      (_, column) =>
+        grid[(top + row) * CRAFTING_SIZE + left + column]?.type ?? null
+    )
+  );
+};
+
+const sameCells = (
+  a: Array<Array<ItemType | null>>,
+  b: Array<Array<ItemType | null>>
+) =>
+  a.length === b.length &&
+  a.every(
+    (row, y) =>
+      row.length === b[y].length && row.every((cell, x) => cell === b[y][x])
+  );
+
+const matchesRecipe = (recipe: Recipe, grid: InventorySlot[]) => {
+  if (recipe.type === 'shapeless') {
+    const items = grid.flatMap((slot) => (slot ? [slot.type] : []));
+    const remaining = [...recipe.ingredients];
+    return (
+      items.length === remaining.length &&
+      items.every((item) => {
+        const index = remaining.indexOf(item);
+        if (index === -1) return false;
+        remaining.splice(index, 1);
+        return true;
+      })
+    );
+  }
+
+  // Shaped recipes can sit anywhere in the grid, and also match mirrored
+  const cells = trimGrid(grid);
+  return (
+    sameCells(recipe.cells, cells) ||
+    sameCells(
+      recipe.cells,
+      cells.map((row) => [...row].reverse())
+    )
+  );
+};
+
+// The recipe the items in the grid make, or null
+export const findRecipe = (grid: InventorySlot[]): Recipe | null =>
+  RECIPES.find((recipe) => matchesRecipe(recipe, grid)) ?? null;
+
+// Take one item from every occupied cell, as crafting does
+export const consumeIngredients = (grid: InventorySlot[]): InventorySlot[] =>
+  grid.map((slot) =>
+    slot && slot.count > 1 ? { ...slot, count: slot.count - 1 } : null
+  );
@@ -0,0 +1,119 @@
+import { Color, Vector3 } from 'three';
+import { FIXED_TIMESTEP } from './loop';
+
+// Game loop ticks in a full day: twenty minutes of play
+export const DAY_LENGTH = (20 * 60 * 1000) / FIXED_TIMESTEP;
+
+// New worlds start shortly after sunrise
+export const START_TIME = DAY_LENGTH * 0.3;
+
+// Fraction of the day: 0 is midnight, 0.25 sunrise, 0.5 noon, 0.75 sunset
+export const getTimeOfDay = (worldTime: number) =>
+  (worldTime % DAY_LENGTH) / DAY_LENGTH;
+
+// Days since the world was created, counting from 1
+export const getDay = (worldTime: number) =>
+  Math.floor(worldTime / DAY_LENGTH) + 1;
+
+// Between the end of dusk and the start of dawn
+export const isNight = (timeOfDay: number) =>
+  timeOfDay < 0.22 || timeOfDay > 0.78;
+
+interface SkyKeyframe {
+  time: number;
+  sky: number;
+  fog: number;
+  // Light intensities
+  sun: number;
+  moon: number;
+  ambient: number;
+  // How strongly sky light shows on blocks
+  daylight: number;
+}
+
+const NIGHT = {
+  sky: 0x0b1026,
+  fog: 0x10152b,
+  sun: 0,
+  moon: 0.25,
+  ambient: 0.15,
+  daylight: 0.2,
+};
+const DAY = {
+  sky: 0x87ceeb,
+  fog: 0x87ceeb,
+  sun: 1,
+  moon: 0,
+  ambient: 0.5,
+  daylight: 1,
+};
+
+// Sky through the day, blended between neighbouring keyframes
+const SKY_KEYFRAMES: SkyKeyframe[] = [
+  { time: 0, ...NIGHT },
+  { time: 0.2, ...NIGHT },
+  {
+    time: 0.25,
+    sky: 0xf4a261,
+    fog: 0xd99a7a,
+    sun: 0.4,
+    moon: 0.05,
+    ambient: 0.3,
+    daylight: 0.6,
+  },
+  { time: 0.32, ...DAY },
+  { time: 0.68, ...DAY },
+  {
+    time: 0.75,
+    sky: 0xf08a5d,
+    fog: 0xc97b63,
+    sun: 0.4,
+    moon: 0.05,
+    ambient: 0.3,
+    daylight: 0.6,
+  },
+  { time: 0.8, ...NIGHT },
+  { time: 1, ...NIGHT },
+];
+
+export interface SkyState {
+  skyColor: Color;
+  fogColor: Color;
+  sunIntensity: number;
+  moonIntensity: number;
+  ambientIntensity: number;
+  // Scale of sky light against block light, from 1 at full day down to the
+  // moonlight at night
+  daylight: number;
+  // Unit vector towards the sun; the moon is always opposite
+  sunDirection: Vector3;
+}
+
+export const getSkyState = (timeOfDay: number): SkyState => {
+  const index = Math.max(
+    1,
+    SKY_KEYFRAMES.findIndex((keyframe) => keyframe.time >= timeOfDay)
+  );
+  const from = SKY_KEYFRAMES[index - 1];
+  const to = SKY_KEYFRAMES[index];
+  const t = (timeOfDay - from.time) / (to.time - from.time);
+  const mix = (a: number, b: number) => a + (b - a) * t;
+
+  // The sun rises in the east (+X), peaks at noon and sets in the west,
+  // tilted a little to the south so it never passes straight overhead
+  const angle = (timeOfDay - 0.25) * Math.PI * 2;
+
+  return {
+    skyColor: new Color(from.sky).lerp(new Color(to.sky), t),
+    fogColor: new Color(from.fog).lerp(new Color(to.fog), t),
+    sunIntensity: mix(from.sun, to.sun),
+    moonIntensity: mix(from.moon, to.moon),
+    ambientIntensity: mix(from.ambient, to.ambient),
+    daylight: mix(from.daylight, to.daylight),
+    sunDirection: new Vector3(
+      Math.cos(angle),
+      Math.sin(angle),
+      0.3
+    ).normalize(),
+  };
+};
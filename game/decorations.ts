@@ -0,0 +1,94 @@
+import { BlockType, DecorationRule, getBlockDefinition } from './blocks';
+import { Random } from './random';
+
+// A small box drawn on a block to break up its flat faces
+export interface DecorationBox {
+  // Center of the box relative to the block center
+  position: [number, number, number];
+  size: [number, number, number];
+  rotation: [number, number, number];
+  color: number;
+}
+
+// Offset in -spread/2..spread/2
+const spread = (random: Random, amount: number) => (random() - 0.5) * amount;
+
+const placeBox = (
+  placement: DecorationRule['placement'],
+  random: Random
+): [number, number, number] => {
+  switch (placement) {
+    case 'top':
+      return [spread(random, 0.7), 0.5, spread(random, 0.7)];
+
+    case 'face': {
+      // Position on any of the six faces
+      const side = Math.floor(random() * 6);
+      const a = spread(random, 0.6);
+      const b = spread(random, 0.6);
+      const positions: Array<[number, number, number]> = [
+        [a, 0.5, b], // top
+        [a, -0.5, b], // bottom
+        [a, b, 0.5], // front
+        [a, b, -0.5], // back
+        [0.5, a, b], // right
+        [-0.5, a, b], // left
+      ];
+      return positions[side];
+    }
+
+    case 'front':
+      return [0, spread(random, 0.7), 0.5 * 0.95]; // Slightly inset from the surface
+
+    case 'inside':
+      return [spread(random, 0.9), spread(random, 0.9), spread(random, 0.9)];
+  }
+};
+
+const rotateBox = (
+  rotation: DecorationRule['rotation'],
+  random: Random
+): [number, number, number] => {
+  switch (rotation) {
+    case 'yaw':
+      return [0, random() * Math.PI, 0];
+    case 'tilt':
+      return [0, 0, random() * 0.2 - 0.1];
+    case 'random':
+      return [random() * Math.PI, random() * Math.PI, random() * Math.PI];
+    default:
+      return [0, 0, 0];
+  }
+};
+
+// Function to create a pattern on blocks from their decoration rules
+export const createDecorations = (
+  type: BlockType,
+  random: Random
+): DecorationBox[] => {
+  const boxes: DecorationBox[] = [];
+
+  getBlockDefinition(type).decorations?.forEach((rule) => {
+    // Skip patterns for some blocks to maintain variety
+    if (random() >= rule.chance) return;
+
+    const [min, max] = rule.count;
+    const count = min + Math.floor(random() * (max - min + 1));
+    const variation = rule.sizeVariation ?? [0, 0, 0];
+
+    for (let i = 0; i < count; i++) {
+      boxes.push({
+        position: placeBox(rule.placement, random),
+        size: [
+          rule.size[0] + random() * variation[0],
+          rule.size[1] + random() * variation[1],
+          rule.size[2] + random() * variation[2],
+        ],
+        rotation: rotateBox(rule.rotation, random),
+        color: rule.colors[Math.floor(random() * rule.colors.length)],
+      });
+    }
+  });
+
+  return boxes;
+};
@@ -0,0 +1,102 @@
+import { Box3, BoxGeometry, Mesh, MeshStandardMaterial, Vector3 } from 'three';
+import { BlockType, getBlockDrops } from './blocks';
+import { CHUNK_SIZE, WORLD_MIN_Y } from './chunks';
+import { ItemStack, getItemColor, isItemType } from './items';
+import { SolidSampler, moveBox } from './physics';
+
+// Pickup: broken blocks leave an item on the ground to walk over.
+// Direct: items go straight into the inventory.
+export type DropMode = 'pickup' | 'direct';
+
+export const DEFAULT_DROP_MODE: DropMode = 'pickup';
+
+// Distance from the player's body at which items are collected
+export const PICKUP_RADIUS = 1.5;
+
+// Ticks before a fresh drop can be picked up, so it can be seen popping out
+const PICKUP_DELAY = 15;
+
+// Ticks before an uncollected drop disappears (five minutes)
+const DROP_LIFETIME = 60 * 60 * 5;
+
+const DROP_SIZE = 0.25;
+const DROP_GRAVITY = 0.01;
+
+// Shared by every drop; each drop has its own material for its color
+const DROP_GEOMETRY = new BoxGeometry(DROP_SIZE, DROP_SIZE, DROP_SIZE);
+
+// An item lying in the world, waiting to be picked up
+export interface ItemDrop extends ItemStack {
+  mesh: Mesh<BoxGeometry, MeshStandardMaterial>;
+  velocity: Vector3;
+  box: Box3;
+  age: number;
+}
+
+// Roll a block's drop rules
+export const rollDrops = (
+  type: BlockType,
+  random: () => number = Math.random
+): ItemStack[] =>
+  getBlockDrops(type).flatMap((drop) =>
+    isItemType(drop.item) && random() < (drop.chance ?? 1)
+      ? [{ type: drop.item, count: drop.count }]
+      : []
+  );
+
+// Spawn a drop at the center of a broken block, popping up a little
+export const createItemDrop = (
+  stack: ItemStack,
+  position: Vector3
+): ItemDrop => {
+  const mesh = new Mesh(
+    DROP_GEOMETRY,
+    new MeshStandardMaterial({ color: getItemColor(stack.type) })
+  );
+  mesh.position.copy(position);
+
+  return {
+    ...stack,
+    mesh,
+    velocity: new Vector3(
+      (Math.random() - 0.5) * 0.05,
+      0.1,
+      (Math.random() - 0.5) * 0.05
+    ),
+    box: new Box3().setFromCenterAndSize(
+      position,
+      new Vector3(DROP_SIZE, DROP_SIZE, DROP_SIZE)
+    ),
+    age: 0,
+  };
+};
+
+// Advance a drop by one tick. Returns false once it has expired or fallen
+// out of the world.
+export const updateItemDrop = (drop: ItemDrop, isSolid: SolidSampler) => {
+  drop.age++;
+  if (drop.age > DROP_LIFETIME) return false;
+  if (drop.box.max.y < WORLD_MIN_Y - CHUNK_SIZE) return false;
+
+  drop.velocity.y -= DROP_GRAVITY;
+  const collision = moveBox(drop.box, drop.velocity, isSolid);
+  if (collision.y) drop.velocity.y = 0;
+
+  // Slide to a stop on the ground
+  if (collision.onGround) drop.velocity.multiplyScalar(0.8);
+  if (collision.x) drop.velocity.x = 0;
+  if (collision.z) drop.velocity.z = 0;
+
+  drop.box.getCenter(drop.mesh.position);
+  drop.mesh.rotation.y += 0.05;
+  return true;
+};
+
+export const canPickUp = (drop: ItemDrop, playerCenter: Vector3) =>
+  drop.age >= PICKUP_DELAY &&
+  drop.mesh.position.distanceTo(playerCenter) <= PICKUP_RADIUS;
+
+export const disposeItemDrop = (drop: ItemDrop) => {
+  drop.mesh.removeFromParent();
+  drop.mesh.material.dispose();
+};
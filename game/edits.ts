@@ -0,0 +1,66 @@
+import { BlockType, isBlockType } from './blocks';
+import { blockKey, chunkKey, worldToChunk } from './chunks';
+import { Point } from './voxels';
+
+export interface BlockEdit extends Point {
+  // Block placed there, or null where the generated block was removed
+  type: BlockType | null;
+}
+
+// Blocks changed since the world was generated, grouped by chunk so a chunk
+// that loads only replays its own
+export interface BlockEdits {
+  set: (x: number, y: number, z: number, type: BlockType | null) => void;
+  forEachInChunk: (
+    cx: number,
+    cz: number,
+    callback: (edit: BlockEdit) => void
+  ) => void;
+  // Every edit keyed by "x,y,z", the way saves store them
+  toRecord: () => Record<string, BlockType | null>;
+}
+
+// Start from the edits of a save. Edits naming block types this version no
+// longer knows are dropped.
+export const createBlockEdits = (
+  saved: Record<string, string | null> = {}
+): BlockEdits => {
+  const chunks = new Map<string, Map<string, BlockEdit>>();
+
+  const set = (x: number, y: number, z: number, type: BlockType | null) => {
+    const key = chunkKey(worldToChunk(x), worldToChunk(z));
+    let edits = chunks.get(key);
+    if (!edits) {
+      edits = new Map();
+      chunks.set(key, edits);
+    }
+    edits.set(blockKey(x, y, z), {
+      x: Math.round(x),
+      y: Math.round(y),
+      z: Math.round(z),
+      type,
+    });
+  };
+
+  const forEachInChunk: BlockEdits['forEachInChunk'] = (cx, cz, callback) => {
+    chunks.get(chunkKey(cx, cz))?.forEach(callback);
+  };
+
+  const toRecord = () => {
+    const record: Record<string, BlockType | null> = {};
+    chunks.forEach((edits) =>
+      edits.forEach((edit, key) => {
+        record[key] = edit.type;
+      })
+    );
+    return record;
+  };
+
+  Object.entries(saved).forEach(([key, type]) => {
+    if (type !== null && !isBlockType(type)) return;
+    const [x, y, z] = key.split(',').map(Number);
+    set(x, y, z, type);
+  });
+
+  return { set, forEachInChunk, toRecord };
+};
@@ -0,0 +1,141 @@
+import { AIR, getBlockById } from './blocks';
+import { blockKey, worldToChunk } from './chunks';
+import { NEIGHBOURS, Point, VoxelStore } from './voxels';
+
+// Farthest a fluid flows sideways from the cell that feeds it
+export const MAX_FLOW_DISTANCE = 7;
+
+// Ticks between a fluid cell changing and its neighbours reacting, so flows
+// visibly creep outwards
+const FLOW_DELAY = 5;
+
+const HORIZONTAL = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+export const isFluid = (id: number) => getBlockById(id)?.fluid === true;
+
+// Cellular fluid flow on top of a voxel store. Cells of a fluid block are
+// either sources, which never change by themselves, or flowing cells that
+// remember how far they are from the cell feeding them. Flowing cells fall
+// straight down first and only spread sideways over something they can't
+// fall through; cut off from their feed, they dry up again.
+export interface FluidSimulator {
+  // A block changed; check it and the cells around it on a later tick
+  notify: (x: number, y: number, z: number) => void;
+  // Run the checks that are due. Returns every cell whose block changed,
+  // already written to the voxel store.
+  tick: () => Point[];
+  // Flow distance of a fluid cell, 0 for sources
+  getLevel: (x: number, y: number, z: number) => number;
+  // Forget flows and pending checks inside an unloaded chunk
+  deleteChunk: (cx: number, cz: number) => void;
+}
+
+export const createFluidSimulator = (voxels: VoxelStore): FluidSimulator => {
+  // Flow distance of every flowing cell; cells missing here are sources
+  const levels = new Map<string, number>();
+  // Cells waiting to be checked, with the tick they are due on
+  const pending = new Map<string, Point & { due: number }>();
+  let now = 0;
+
+  const schedule = (x: number, y: number, z: number) => {
+    const key = blockKey(x, y, z);
+    if (!pending.has(key)) pending.set(key, { x, y, z, due: now + FLOW_DELAY });
+  };
+
+  const notify = (x: number, y: number, z: number) => {
+    [[0, 0, 0], ...NEIGHBOURS].forEach(([dx, dy, dz]) =>
+      schedule(Math.round(x) + dx, Math.round(y) + dy, Math.round(z) + dz)
+    );
+  };
+
+  const getLevel = (x: number, y: number, z: number) =>
+    levels.get(blockKey(x, y, z)) ?? 0;
+
+  const update = (x: number, y: number, z: number, changed: Point[]) => {
+    const key = blockKey(x, y, z);
+    const id = voxels.getBlock(x, y, z);
+    if (!isFluid(id)) {
+      // Whatever flowed here was replaced
+      levels.delete(key);
+      return;
+    }
+
+    let level = getLevel(x, y, z);
+
+    // Flowing cells follow the closest feed, or dry up without one
+    if (levels.has(key)) {
+      let feed = voxels.getBlock(x, y + 1, z) === id ? 1 : Infinity;
+      HORIZONTAL.forEach(([dx, dz]) => {
+        if (voxels.getBlock(x + dx, y, z + dz) === id) {
+          feed = Math.min(feed, getLevel(x + dx, y, z + dz) + 1);
+        }
+      });
+
+      if (feed > MAX_FLOW_DISTANCE) {
+        levels.delete(key);
+        voxels.setBlock(x, y, z, AIR);
+        changed.push({ x, y, z });
+        notify(x, y, z);
+        return;
+      }
+      if (feed !== level) {
+        levels.set(key, feed);
+        level = feed;
+        notify(x, y, z);
+      }
+    }
+
+    const flowInto = (nx: number, ny: number, nz: number, next: number) => {
+      const neighbour = voxels.getBlock(nx, ny, nz);
+      const nextKey = blockKey(nx, ny, nz);
+      if (neighbour === AIR) {
+        // Unloaded chunks read as air but can't be written
+        if (!voxels.setBlock(nx, ny, nz, id)) return;
+        levels.set(nextKey, next);
+        changed.push({ x: nx, y: ny, z: nz });
+        notify(nx, ny, nz);
+      } else if (neighbour === id && (levels.get(nextKey) ?? 0) > next) {
+        // A shorter path to an existing flow
+        levels.set(nextKey, next);
+        notify(nx, ny, nz);
+      }
+    };
+
+    // Falling comes first; fluid resting on more fluid doesn't spread
+    const below = voxels.getBlock(x, y - 1, z);
+    if (below === AIR) {
+      flowInto(x, y - 1, z, 1);
+      return;
+    }
+    if (below === id || level >= MAX_FLOW_DISTANCE) return;
+
+    HORIZONTAL.forEach(([dx, dz]) => flowInto(x + dx, y, z + dz, level + 1));
+  };
+
+  const tick = () => {
+    now++;
+    const changed: Point[] = [];
+    const due = [...pending.entries()].filter(([, cell]) => cell.due <= now);
+    due.forEach(([key, { x, y, z }]) => {
+      pending.delete(key);
+      update(x, y, z, changed);
+    });
+    return changed;
+  };
+
+  const deleteChunk = (cx: number, cz: number) => {
+    const inChunk = (key: string) => {
+      const [x, , z] = key.split(',').map(Number);
+      return worldToChunk(x) === cx && worldToChunk(z) === cz;
+    };
+    [...levels.keys()].filter(inChunk).forEach((key) => levels.delete(key));
+    [...pending.keys()].filter(inChunk).forEach((key) => pending.delete(key));
+  };
+
+  return { notify, tick, getLevel, deleteChunk };
+};
@@ -0,0 +1,22 @@
+// Health is counted in half hearts, shown as ten hearts in the HUD
+export const MAX_HEALTH = 20;
+
+// How far below the bedrock layer the player can fall before dying
+export const VOID_DEPTH = 16;
+
+// Falls up to this many blocks high do no harm
+const SAFE_FALL_HEIGHT = 3;
+
+// Damage for landing at a downward speed (blocks per tick) under a gravity
+// (blocks per tick squared): one half heart per block fallen past the safe
+// height
+export const getFallDamage = (landingSpeed: number, gravity: number) => {
+  const fallHeight = (landingSpeed * landingSpeed) / (2 * gravity);
+  return Math.max(0, Math.floor(fallHeight - SAFE_FALL_HEIGHT));
+};
+
+// Keep a stored health value within range, treating anything invalid as full
+export const clampHealth = (health: unknown) =>
+  typeof health === 'number' && health > 0
+    ? Math.min(MAX_HEALTH, Math.ceil(health))
+    : MAX_HEALTH;
@@ -0,0 +1,113 @@
+import { ItemStack, getMaxStackSize, isItemType } from './items';
+
+// The hotbar is the first row of slots, the storage grid the rest
+export const HOTBAR_SIZE = 9;
+export const STORAGE_ROWS = 3;
+export const STORAGE_SIZE = HOTBAR_SIZE * STORAGE_ROWS;
+export const INVENTORY_SIZE = HOTBAR_SIZE + STORAGE_SIZE;
+
+export type InventorySlot = ItemStack | null;
+
+// Slots 0..HOTBAR_SIZE - 1 are the hotbar, followed by the storage grid.
+// Inventories are never changed in place; every update returns a new array.
+export type Inventory = InventorySlot[];
+
+export const createInventory = (): Inventory =>
+  new Array<InventorySlot>(INVENTORY_SIZE).fill(null);
+
+// Rebuild an inventory from saved slots, dropping unknown items and
+// trimming stacks that are over the limit
+export const restoreInventory = (
+  slots: Array<{ type: string; count: number } | null>
+): Inventory =>
+  createInventory().map((_, index) => {
+    const slot = slots[index];
+    if (!slot || !isItemType(slot.type) || slot.count <= 0) return null;
+    return {
+      type: slot.type,
+      count: Math.min(slot.count, getMaxStackSize(slot.type)),
+    };
+  });
+
+// Add items, topping up matching stacks before filling empty slots (hotbar
+// first). Whatever doesn't fit is returned as remaining.
+export const addItems = (
+  inventory: Inventory,
+  stack: ItemStack
+): { inventory: Inventory; remaining: number } => {
+  const next = [...inventory];
+  const limit = getMaxStackSize(stack.type);
+  let remaining = stack.count;
+
+  next.forEach((slot, index) => {
+    if (remaining <= 0 || !slot || slot.type !== stack.type) return;
+    const added = Math.min(remaining, limit - slot.count);
+    if (added <= 0) return;
+    next[index] = { ...slot, count: slot.count + added };
+    remaining -= added;
+  });
+
+  next.forEach((slot, index) => {
+    if (remaining <= 0 || slot) return;
+    const added = Math.min(remaining, limit);
+    next[index] = { type: stack.type, count: added };
+    remaining -= added;
+  });
+
+  return { inventory: next, remaining };
+};
+
+// Take items out of one slot, emptying it when none are left
+export const removeItems = (
+  inventory: Inventory,
+  index: number,
+  count: number
+): Inventory => {
+  const slot = inventory[index];
+  if (!slot) return inventory;
+
+  const next = [...inventory];
+  next[index] =
+    slot.count > count ? { ...slot, count: slot.count - count } : null;
+  return next;
+};
+
+// Move a stack onto another slot: merge into a matching stack as far as the
+// limit allows, otherwise swap the two slots
+export const moveStack = (
+  inventory: Inventory,
+  from: number,
+  to: number
+): Inventory => {
+  const source = inventory[from];
+  const target = inventory[to];
+  if (!source || from === to) return inventory;
+
+  const next = [...inventory];
+  if (target && target.type === source.type) {
+    const moved = Math.min(
+      source.count,
+      getMaxStackSize(source.type) - target.count
+    );
+    next[to] = { ...target, count: target.count + moved };
+    next[from] =
+      source.count > moved ? { ...source, count: source.count - moved } : null;
+  } else {
+    next[to] = source;
+    next[from] = target;
+  }
+  return next;
+};
+
+// Move half of a stack (rounded down) into the first empty slot
+export const splitStack = (inventory: Inventory, index: number): Inventory => {
+  const slot = inventory[index];
+  const empty = inventory.indexOf(null);
+  if (!slot || slot.count < 2 || empty === -1) return inventory;
+
+  const half = Math.floor(slot.count / 2);
+  const next = [...inventory];
+  next[index] = { ...slot, count: slot.count - half };
+  next[empty] = { type: slot.type, count: half };
+  return next;
+};
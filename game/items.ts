@@ -0,0 +1,178 @@
+import {
+  BLOCKS,
+  BLOCK_TYPES,
+  BlockDefinition,
+  BlockFace,
+  BlockType,
+  ToolKind,
+  getBlockDefinition,
+  getFaceColor,
+  isBlockType,
+} from './blocks';
+
+export interface ToolDefinition {
+  // Stored in saves and used in code
+  name: string;
+  displayName: string;
+  kind: ToolKind;
+  // How many times faster than by hand it breaks blocks of its kind
+  speed: number;
+  // Shown in the inventory
+  color: number;
+}
+
+// Declare tools with their literal names kept, so ToolType stays a union
+const defineTools = <const T extends readonly ToolDefinition[]>(tools: T) =>
+  tools;
+
+export const TOOLS = defineTools([
+  {
+    name: 'pickaxe',
+    displayName: 'Pickaxe',
+    kind: 'pickaxe',
+    speed: 5,
+    color: 0x9e9e9e,
+  },
+  {
+    name: 'axe',
+    displayName: 'Axe',
+    kind: 'axe',
+    speed: 4,
+    color: 0xc28e4a,
+  },
+  {
+    name: 'shovel',
+    displayName: 'Shovel',
+    kind: 'shovel',
+    speed: 4,
+    color: 0xd8d8d8,
+  },
+]);
+
+export type ToolType = (typeof TOOLS)[number]['name'];
+
+// Items that are neither blocks nor tools, only used for crafting
+export interface MaterialDefinition {
+  // Stored in saves and used in code
+  name: string;
+  displayName: string;
+  // Shown in the inventory
+  color: number;
+}
+
+const defineMaterials = <const T extends readonly MaterialDefinition[]>(
+  materials: T
+) => materials;
+
+export const MATERIALS = defineMaterials([
+  {
+    name: 'stick',
+    displayName: 'Stick',
+    color: 0x8b6a3e,
+  },
+  {
+    name: 'coal',
+    displayName: 'Coal',
+    color: 0x2b2b2b,
+  },
+  {
+    name: 'diamond',
+    displayName: 'Diamond',
+    color: 0x5fe0e6,
+  },
+]);
+
+export type MaterialType = (typeof MATERIALS)[number]['name'];
+
+// Anything that can sit in an inventory slot
+export type ItemType = BlockType | ToolType | MaterialType;
+
+export const TOOL_TYPES: ToolType[] = TOOLS.map((tool) => tool.name);
+
+export const MATERIAL_TYPES: MaterialType[] = MATERIALS.map(
+  (material) => material.name
+);
+
+export const ITEM_TYPES: ItemType[] = [
+  ...BLOCK_TYPES,
+  ...TOOL_TYPES,
+  ...MATERIAL_TYPES,
+];
+
+export interface ItemStack {
+  type: ItemType;
+  count: number;
+}
+
+// Most items a single inventory slot can hold
+const MAX_BLOCK_STACK = 64;
+
+const toolsByName = new Map<string, ToolDefinition>(
+  TOOLS.map((tool) => [tool.name, tool])
+);
+const materialsByName = new Map<string, MaterialDefinition>(
+  MATERIALS.map((material) => [material.name, material])
+);
+
+// Item names share saves with block names, so they must not overlap
+TOOLS.forEach((tool) => {
+  if (isBlockType(tool.name)) {
+    throw new Error(`Tool "${tool.name}" has the same name as a block`);
+  }
+});
+MATERIALS.forEach((material) => {
+  if (isBlockType(material.name) || toolsByName.has(material.name)) {
+    throw new Error(`Material "${material.name}" has the same name as an item`);
+  }
+});
+
+export const isToolType = (value: unknown): value is ToolType =>
+  typeof value === 'string' && toolsByName.has(value);
+
+export const isMaterialType = (value: unknown): value is MaterialType =>
+  typeof value === 'string' && materialsByName.has(value);
+
+export const isItemType = (value: unknown): value is ItemType =>
+  isBlockType(value) || isToolType(value) || isMaterialType(value);
+
+// Blocks can drop any item, so drops are checked once every item is known
+BLOCKS.forEach((block: BlockDefinition) => {
+  block.drops?.forEach((drop) => {
+    if (!isItemType(drop.item)) {
+      throw new Error(`Block "${block.name}" drops unknown "${drop.item}"`);
+    }
+  });
+});
+
+export const getToolDefinition = (type: ToolType): ToolDefinition =>
+  toolsByName.get(type)!;
+
+export const getMaterialDefinition = (type: MaterialType): MaterialDefinition =>
+  materialsByName.get(type)!;
+
+export const getItemName = (type: ItemType) => {
+  if (isToolType(type)) return getToolDefinition(type).displayName;
+  if (isMaterialType(type)) return getMaterialDefinition(type).displayName;
+  return getBlockDefinition(type).displayName;
+};
+
+export const getMaxStackSize = (type: ItemType) =>
+  isToolType(type) ? 1 : MAX_BLOCK_STACK;
+
+// Color used for the item in the inventory
+export const getItemColor = (type: ItemType): number => {
+  if (isToolType(type)) return getToolDefinition(type).color;
+  if (isMaterialType(type)) return getMaterialDefinition(type).color;
+  return getFaceColor(type, BlockFace.Top);
+};
+
+// Milliseconds needed to break a block while holding an item, or Infinity for
+// blocks that can't be broken
+export const getBreakTime = (block: BlockType, held: ItemType | null) => {
+  const { hardness, tool } = getBlockDefinition(block);
+  if (!Number.isFinite(hardness)) return Infinity;
+
+  const heldTool = held && isToolType(held) ? getToolDefinition(held) : null;
+  const speed = heldTool && heldTool.kind === tool ? heldTool.speed : 1;
+  return (hardness * 1000) / speed;
+};
@@ -0,0 +1,314 @@
+import { AIR, getBlockById } from './blocks';
+import {
+  CHUNK_SIZE,
+  CHUNK_VOLUME,
+  ChunkCoord,
+  WORLD_HEIGHT,
+  WORLD_MIN_Y,
+  isInsideWorldHeight,
+  voxelIndex,
+  worldToChunk,
+  worldToLocal,
+} from './chunks';
+import { NEIGHBOURS, VoxelStore, packChunkKey } from './voxels';
+
+// Brightest light level, for both sky light and block light
+export const MAX_LIGHT = 15;
+
+// Each voxel's light fits in one byte: sky light in the high four bits and
+// light from glowing blocks in the low four
+export const getSkyLight = (light: number) => light >> 4;
+export const getBlockLight = (light: number) => light & 0xf;
+
+// Reads packed light at world coordinates
+export type LightSampler = (x: number, y: number, z: number) => number;
+
+// Light levels of every loaded chunk, kept in step with a voxel store
+export interface LightStore {
+  // Packed light at a position. Above the world is open sky; unloaded chunks
+  // are treated as open sky too, so their borders don't flash dark.
+  getLight: LightSampler;
+  // Light a chunk just added to the voxel store, trading light with the
+  // loaded chunks around it. Returns the other chunks whose light changed.
+  addChunk: (cx: number, cz: number) => ChunkCoord[];
+  deleteChunk: (cx: number, cz: number) => void;
+  // Relight around a block that was just changed in the voxel store.
+  // Returns every chunk whose light changed.
+  updateBlock: (x: number, y: number, z: number) => ChunkCoord[];
+}
+
+enum Channel {
+  Sky = 4,
+  Block = 0,
+}
+
+const OPEN_SKY = MAX_LIGHT << Channel.Sky;
+
+// Air and see-through blocks let light pass; everything else stops it
+const passesLight = (id: number) =>
+  id === AIR || getBlockById(id)?.transparent === true;
+
+const getEmission = (id: number) => getBlockById(id)?.light ?? 0;
+
+// Light spreads with flood fills: each step loses one level, except sky light
+// shining straight down through air, which stays at full strength so open
+// columns are fully lit.
+export const createLightStore = (voxels: VoxelStore): LightStore => {
+  const chunks = new Map<number, Uint8Array>();
+
+  const getChunk = (x: number, z: number) =>
+    chunks.get(packChunkKey(worldToChunk(x), worldToChunk(z)));
+
+  const getLight = (x: number, y: number, z: number) => {
+    if (y >= WORLD_MIN_Y + WORLD_HEIGHT) return OPEN_SKY;
+    if (y < WORLD_MIN_Y) return 0;
+    const light = getChunk(x, z);
+    if (!light) return OPEN_SKY;
+    return light[voxelIndex(worldToLocal(x), y, worldToLocal(z))];
+  };
+
+  // Fills only see loaded cells inside the world; everything else is dark
+  const getLevel = (channel: Channel, x: number, y: number, z: number) => {
+    if (!isInsideWorldHeight(y)) return 0;
+    const light = getChunk(x, z);
+    if (!light) return 0;
+    return (
+      (light[voxelIndex(worldToLocal(x), y, worldToLocal(z))] >> channel) & 0xf
+    );
+  };
+
+  // Chunks touched by the fill in progress
+  let changed = new Map<number, ChunkCoord>();
+
+  // Returns false for positions outside loaded chunks and the world height
+  const setLevel = (
+    channel: Channel,
+    x: number,
+    y: number,
+    z: number,
+    level: number
+  ) => {
+    if (!isInsideWorldHeight(y)) return false;
+    const light = getChunk(x, z);
+    if (!light) return false;
+
+    const index = voxelIndex(worldToLocal(x), y, worldToLocal(z));
+    light[index] = (light[index] & ~(0xf << channel)) | (level << channel);
+
+    const cx = worldToChunk(x);
+    const cz = worldToChunk(z);
+    changed.set(packChunkKey(cx, cz), { cx, cz });
+    return true;
+  };
+
+  // Level a neighbour gets from a cell at the given level
+  const spreadLevel = (
+    channel: Channel,
+    level: number,
+    direction: number[],
+    neighbour: number
+  ) =>
+    channel === Channel.Sky &&
+    level === MAX_LIGHT &&
+    direction[1] === -1 &&
+    neighbour === AIR
+      ? MAX_LIGHT
+      : level - 1;
+
+  // Spread light outwards from the queued cells, given as x, y, z triples
+  const propagate = (channel: Channel, queue: number[]) => {
+    for (let head = 0; head < queue.length; head += 3) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      const level = getLevel(channel, x, y, z);
+      if (level <= 1) continue;
+
+      for (const direction of NEIGHBOURS) {
+        const nx = x + direction[0];
+        const ny = y + direction[1];
+        const nz = z + direction[2];
+        const id = voxels.getBlock(nx, ny, nz);
+        if (!passesLight(id)) continue;
+
+        const next = spreadLevel(channel, level, direction, id);
+        if (getLevel(channel, nx, ny, nz) >= next) continue;
+        if (setLevel(channel, nx, ny, nz, next)) queue.push(nx, ny, nz);
+      }
+    }
+  };
+
+  // Darken the cells lit by the queued cells (x, y, z, old level), then
+  // refill the dark area from the light around it
+  const unpropagate = (channel: Channel, queue: number[]) => {
+    const refill: number[] = [];
+
+    for (let head = 0; head < queue.length; head += 4) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      const level = queue[head + 3];
+
+      for (const direction of NEIGHBOURS) {
+        const nx = x + direction[0];
+        const ny = y + direction[1];
+        const nz = z + direction[2];
+        const neighbour = getLevel(channel, nx, ny, nz);
+        if (neighbour === 0) continue;
+
+        const id = voxels.getBlock(nx, ny, nz);
+        if (
+          neighbour < level ||
+          neighbour === spreadLevel(channel, level, direction, id)
+        ) {
+          // Lit from the removed cell, so it goes dark too
+          if (!setLevel(channel, nx, ny, nz, 0)) continue;
+          queue.push(nx, ny, nz, neighbour);
+
+          // Glowing blocks light themselves again
+          const emission = channel === Channel.Block ? getEmission(id) : 0;
+          if (emission > 0) {
+            setLevel(channel, nx, ny, nz, emission);
+            refill.push(nx, ny, nz);
+          }
+        } else {
+          // Lit from elsewhere, so it can shine back into the dark area
+          refill.push(nx, ny, nz);
+        }
+      }
+    }
+
+    propagate(channel, refill);
+  };
+
+  const takeChanged = () => {
+    const result = [...changed.values()];
+    changed = new Map();
+    return result;
+  };
+
+  const addChunk = (cx: number, cz: number) => {
+    const blocks = voxels.getChunk(cx, cz);
+    if (!blocks) return [];
+    const light = new Uint8Array(CHUNK_VOLUME);
+    chunks.set(packChunkKey(cx, cz), light);
+
+    const originX = cx * CHUNK_SIZE;
+    const originZ = cz * CHUNK_SIZE;
+    const top = WORLD_MIN_Y + WORLD_HEIGHT - 1;
+    const skyQueue: number[] = [];
+    const blockQueue: number[] = [];
+
+    // Open sky shines down each column until the first block
+    for (let lz = 0; lz < CHUNK_SIZE; lz++) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+        for (let y = top; y >= WORLD_MIN_Y; y--) {
+          const index = voxelIndex(lx, y, lz);
+          if (blocks[index] !== AIR) break;
+          light[index] = OPEN_SKY;
+        }
+      }
+    }
+
+    for (let y = WORLD_MIN_Y; y <= top; y++) {
+      for (let lz = 0; lz < CHUNK_SIZE; lz++) {
+        for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+          const index = voxelIndex(lx, y, lz);
+          const x = originX + lx;
+          const z = originZ + lz;
+
+          const emission = getEmission(blocks[index]);
+          if (emission > 0) {
+            light[index] |= emission;
+            blockQueue.push(x, y, z);
+          }
+
+          // Only lit cells next to something darker need to spread, which
+          // skips the open air above the ground
+          if (light[index] !== OPEN_SKY) continue;
+          const edge =
+            lx === 0 ||
+            lz === 0 ||
+            lx === CHUNK_SIZE - 1 ||
+            lz === CHUNK_SIZE - 1 ||
+            light[voxelIndex(lx - 1, y, lz)] !== OPEN_SKY ||
+            light[voxelIndex(lx + 1, y, lz)] !== OPEN_SKY ||
+            light[voxelIndex(lx, y, lz - 1)] !== OPEN_SKY ||
+            light[voxelIndex(lx, y, lz + 1)] !== OPEN_SKY ||
+            (y > WORLD_MIN_Y && light[voxelIndex(lx, y - 1, lz)] !== OPEN_SKY);
+          if (edge) skyQueue.push(x, y, z);
+        }
+      }
+    }
+
+    // Light from loaded neighbours shines in across the borders
+    for (let y = WORLD_MIN_Y; y <= top; y++) {
+      for (let i = 0; i < CHUNK_SIZE; i++) {
+        [
+          [originX - 1, originZ + i],
+          [originX + CHUNK_SIZE, originZ + i],
+          [originX + i, originZ - 1],
+          [originX + i, originZ + CHUNK_SIZE],
+        ].forEach(([x, z]) => {
+          if (!getChunk(x, z)) return;
+          if (getLevel(Channel.Sky, x, y, z) > 1) skyQueue.push(x, y, z);
+          if (getLevel(Channel.Block, x, y, z) > 1) blockQueue.push(x, y, z);
+        });
+      }
+    }
+
+    propagate(Channel.Sky, skyQueue);
+    propagate(Channel.Block, blockQueue);
+
+    return takeChanged().filter((coord) => coord.cx !== cx || coord.cz !== cz);
+  };
+
+  const deleteChunk = (cx: number, cz: number) => {
+    chunks.delete(packChunkKey(cx, cz));
+  };
+
+  const updateBlock = (blockX: number, blockY: number, blockZ: number) => {
+    const x = Math.round(blockX);
+    const y = Math.round(blockY);
+    const z = Math.round(blockZ);
+    if (!isInsideWorldHeight(y) || !getChunk(x, z)) return [];
+    const id = voxels.getBlock(x, y, z);
+
+    [Channel.Sky, Channel.Block].forEach((channel) => {
+      // Clear the cell and whatever it was lighting
+      const level = getLevel(channel, x, y, z);
+      setLevel(channel, x, y, z, 0);
+      unpropagate(channel, [x, y, z, level]);
+
+      // Then let the new block glow, or light back in through it
+      const queue: number[] = [];
+      const emission = channel === Channel.Block ? getEmission(id) : 0;
+      if (emission > 0) {
+        setLevel(channel, x, y, z, emission);
+        queue.push(x, y, z);
+      }
+      if (passesLight(id)) {
+        NEIGHBOURS.forEach(([dx, dy, dz]) => {
+          if (isInsideWorldHeight(y + dy)) {
+            queue.push(x + dx, y + dy, z + dz);
+          } else if (channel === Channel.Sky && dy === 1) {
+            // Directly under the top of the world
+            setLevel(
+              channel,
+              x,
+              y,
+              z,
+              spreadLevel(channel, MAX_LIGHT, [0, -1, 0], id)
+            );
+            queue.push(x, y, z);
+          }
+        });
+      }
+      propagate(channel, queue);
+    });
+
+    return takeChanged();
+  };
+
+  return { getLight, addChunk, deleteChunk, updateBlock };
+};
@@ -0,0 +1,64 @@
+// Length of one simulation tick in milliseconds; movement constants are per tick
+export const FIXED_TIMESTEP = 1000 / 60;
+
+// Longest frame simulated at once, so a stall doesn't freeze the game
+// catching up on hundreds of ticks
+export const MAX_FRAME_TIME = 250;
+
+export interface GameLoopCallbacks {
+  // Advance the simulation by one fixed tick
+  update: () => void;
+  // Draw a frame; alpha (0..1) is how far real time has moved past the last
+  // tick towards the next one, for interpolating between the two
+  render: (alpha: number) => void;
+}
+
+export interface GameLoop {
+  start: () => void;
+  stop: () => void;
+  // Stop ticking without losing state, e.g. while the app is in the background
+  pause: () => void;
+  resume: () => void;
+}
+
+// Run the simulation at a fixed rate and render once per animation frame,
+// however fast the display refreshes
+export const createGameLoop = (
+  { update, render }: GameLoopCallbacks,
+  timestep = FIXED_TIMESTEP
+): GameLoop => {
+  let frame: number | null = null;
+  let lastFrameTime = 0;
+  let accumulator = 0;
+
+  const tick = () => {
+    frame = requestAnimationFrame(tick);
+
+    const now = performance.now();
+    accumulator += Math.min(now - lastFrameTime, MAX_FRAME_TIME);
+    lastFrameTime = now;
+
+    while (accumulator >= timestep) {
+      update();
+      accumulator -= timestep;
+    }
+
+    render(accumulator / timestep);
+  };
+
+  const start = () => {
+    if (frame !== null) return;
+    // Time spent stopped is never simulated
+    lastFrameTime = performance.now();
+    accumulator = 0;
+    tick();
+  };
+
+  const stop = () => {
+    if (frame === null) return;
+    cancelAnimationFrame(frame);
+    frame = null;
+  };
+
+  return { start, stop, pause: stop, resume: start };
+};
@@ -0,0 +1,476 @@
+import {
+  BoxGeometry,
+  BufferGeometry,
+  Color,
+  Euler,
+  Float32BufferAttribute,
+  Matrix3,
+  Matrix4,
+  Quaternion,
+  Vector3,
+} from 'three';
+import {
+  AIR,
+  BlockFace,
+  getBlockById,
+  getBlockType,
+  getFaceValue,
+} from './blocks';
+import { CHUNK_SIZE, WORLD_HEIGHT, WORLD_MIN_Y, voxelIndex } from './chunks';
+import { createDecorations } from './decorations';
+import {
+  LightSampler,
+  MAX_LIGHT,
+  getBlockLight,
+  getSkyLight,
+} from './lighting';
+import { createRandom, hashCoords, randomAt } from './random';
+import { TextureAtlas } from './textures';
+
+// Reads a block id at world coordinates, used for faces on chunk borders
+export type BlockSampler = (x: number, y: number, z: number) => number;
+
+export interface ChunkGeometry {
+  // Block faces with three groups: 0 for opaque blocks, 1 for transparent
+  // ones and 2 for fluids.
+  // uv counts blocks, so it repeats across merged faces, and uvTile holds the
+  // atlas tile each face shows (zero size for untextured faces). Vertex
+  // colors carry ambient occlusion, and light holds the sky and block
+  // brightness in front of each face (see applyChunkShader).
+  terrain: BufferGeometry;
+  // Decorative details merged into one geometry, or null if there are none.
+  // Colors and light work as they do for terrain.
+  decorations: BufferGeometry | null;
+}
+
+const DIMS = [CHUNK_SIZE, WORLD_HEIGHT, CHUNK_SIZE];
+
+// Faces along each axis, for the positive and negative direction
+const AXIS_FACES = [
+  [BlockFace.Right, BlockFace.Left],
+  [BlockFace.Top, BlockFace.Bottom],
+  [BlockFace.Front, BlockFace.Back],
+];
+
+// Brightness of each light level, each one 80% as bright as the next
+const LIGHT_CURVE = Array.from({ length: MAX_LIGHT + 1 }, (_, level) =>
+  Math.max(0.05, Math.pow(0.8, MAX_LIGHT - level))
+);
+
+// Brightness of a face corner with 0 to 3 of the blocks around it open
+const OCCLUSION_CURVE = [0.5, 0.7, 0.85, 1];
+
+// Corners of a face in its own u and v directions, in the order their
+// occlusion is packed into a shade
+const FACE_CORNERS = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+// Sky and block brightness of a light value. They stay apart so that only sky
+// light dims with the time of day.
+const getBrightness = (light: number) => [
+  LIGHT_CURVE[getSkyLight(light)],
+  LIGHT_CURVE[getBlockLight(light)],
+];
+
+// Blocks that darken the corners of faces next to them
+const occludes = (id: number) =>
+  id !== AIR && getBlockById(id)?.transparent === false;
+
+// Unit cube used as a template for decoration boxes
+const BOX_TEMPLATE = new BoxGeometry(1, 1, 1).toNonIndexed();
+
+// A face of block a is drawn when the neighbour b doesn't fully hide it
+const isFaceVisible = (a: number, b: number) => {
+  if (a === AIR) return false;
+  if (b === AIR) return true;
+  return b !== a && getBlockById(b)?.transparent === true;
+};
+
+// Build the geometry of one chunk with greedy meshing: only faces between a
+// block and air (or a see-through block) are emitted, and coplanar faces of
+// the same block type are merged into the largest possible rectangles.
+export const buildChunkGeometry = (
+  cx: number,
+  cz: number,
+  voxels: Uint8Array,
+  sample: BlockSampler,
+  seed: number,
+  atlas: TextureAtlas | null,
+  light: LightSampler
+): ChunkGeometry => {
+  const origin = [cx * CHUNK_SIZE, WORLD_MIN_Y, cz * CHUNK_SIZE];
+
+  // Block at chunk-local coordinates (y counted from WORLD_MIN_Y)
+  const getBlock = (lx: number, ly: number, lz: number) => {
+    if (ly < 0 || ly >= WORLD_HEIGHT) return AIR;
+    if (lx < 0 || lx >= CHUNK_SIZE || lz < 0 || lz >= CHUNK_SIZE) {
+      return sample(origin[0] + lx, origin[1] + ly, origin[2] + lz);
+    }
+    return voxels[voxelIndex(lx, ly + WORLD_MIN_Y, lz)];
+  };
+
+  // Light of the cell in front of a face (8 bits) and the ambient occlusion
+  // of its four corners (2 bits each), so faces only merge when they are
+  // shaded alike
+  const side = [0, 0, 0];
+  const getShade = (front: number[], u: number, v: number) => {
+    let shade = light(
+      origin[0] + front[0],
+      origin[1] + front[1],
+      origin[2] + front[2]
+    );
+
+    FACE_CORNERS.forEach(([su, sv], corner) => {
+      side[0] = front[0];
+      side[1] = front[1];
+      side[2] = front[2];
+      side[u] += su;
+      const first = occludes(getBlock(side[0], side[1], side[2]));
+      side[v] += sv;
+      const diagonal = occludes(getBlock(side[0], side[1], side[2]));
+      side[u] -= su;
+      const second = occludes(getBlock(side[0], side[1], side[2]));
+
+      const open =
+        first && second
+          ? 0
+          : 3 - Number(first) - Number(second) - Number(diagonal);
+      shade |= open << (8 + corner * 2);
+    });
+
+    return shade;
+  };
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const colors: number[] = [];
+  const lights: number[] = [];
+  const uvs: number[] = [];
+  const uvTiles: number[] = [];
+  const opaqueIndices: number[] = [];
+  const transparentIndices: number[] = [];
+  const fluidIndices: number[] = [];
+  const color = new Color();
+
+  const addQuad = (
+    corner: number[],
+    du: number[],
+    dv: number[],
+    normal: number[],
+    flip: boolean,
+    id: number,
+    face: BlockFace,
+    cell: number[],
+    shade: number
+  ) => {
+    const block = getBlockById(id);
+    if (!block) return;
+
+    const base = positions.length / 3;
+    const corners = flip
+      ? [
+          corner,
+          [corner[0] + dv[0], corner[1] + dv[1], corner[2] + dv[2]],
+          [
+            corner[0] + du[0] + dv[0],
+            corner[1] + du[1] + dv[1],
+            corner[2] + du[2] + dv[2],
+          ],
+          [corner[0] + du[0], corner[1] + du[1], corner[2] + du[2]],
+        ]
+      : [
+          corner,
+          [corner[0] + du[0], corner[1] + du[1], corner[2] + du[2]],
+          [
+            corner[0] + du[0] + dv[0],
+            corner[1] + du[1] + dv[1],
+            corner[2] + du[2] + dv[2],
+          ],
+          [corner[0] + dv[0], corner[1] + dv[1], corner[2] + dv[2]],
+        ];
+
+    // Slight seeded variation per face to keep large areas from looking flat
+    const random = createRandom(
+      hashCoords(seed, cell[0], cell[1], cell[2], face)
+    );
+    const tile =
+      block.textures && atlas
+        ? atlas.getTile(getFaceValue(block.textures, face))
+        : null;
+
+    // Textured faces keep their texture's colors
+    color
+      .setHex(tile ? 0xffffff : getFaceValue(block.colors, face))
+      .multiplyScalar(1 + (random() * 0.1 - 0.05));
+    const [sky, blockLight] = getBrightness(shade & 0xff);
+
+    // Occlusion of each vertex, following the corner order above
+    const vertexCorners = flip ? [0, 3, 2, 1] : [0, 1, 2, 3];
+    const occlusion = vertexCorners.map(
+      (corner) => (shade >> (8 + corner * 2)) & 3
+    );
+
+    // Texture axes: sides run up the Y axis, tops and bottoms along X and Z
+    const [s, t] = normal[0] !== 0 ? [2, 1] : normal[1] !== 0 ? [0, 2] : [0, 1];
+
+    corners.forEach((vertex, index) => {
+      const brightness = OCCLUSION_CURVE[occlusion[index]];
+      positions.push(vertex[0], vertex[1], vertex[2]);
+      normals.push(normal[0], normal[1], normal[2]);
+      colors.push(
+        color.r * brightness,
+        color.g * brightness,
+        color.b * brightness
+      );
+      lights.push(sky, blockLight);
+      uvs.push(vertex[s] + 0.5, vertex[t] + 0.5);
+      uvTiles.push(...(tile ?? [0, 0, 0, 0]));
+    });
+
+    // Split the quad along the diagonal through its darker corners, so the
+    // shading fades evenly instead of creasing along the other diagonal
+    const indices = block.fluid
+      ? fluidIndices
+      : block.transparent
+        ? transparentIndices
+        : opaqueIndices;
+    if (occlusion[0] + occlusion[2] <= occlusion[1] + occlusion[3]) {
+      indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    } else {
+      indices.push(base + 1, base + 2, base + 3, base + 1, base + 3, base);
+    }
+  };
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const x = [0, 0, 0];
+    const q = [0, 0, 0];
+    q[d] = 1;
+
+    // Positive values are faces of the block behind the plane facing +d,
+    // negative values are faces of the block in front of it facing -d
+    const mask = new Int32Array(DIMS[u] * DIMS[v]);
+    const shades = new Int32Array(DIMS[u] * DIMS[v]);
+    const front = [0, 0, 0];
+
+    for (x[d] = -1; x[d] < DIMS[d];) {
+      let n = 0;
+      for (x[v] = 0; x[v] < DIMS[v]; x[v]++) {
+        for (x[u] = 0; x[u] < DIMS[u]; x[u]++) {
+          const a = getBlock(x[0], x[1], x[2]);
+          const b = getBlock(x[0] + q[0], x[1] + q[1], x[2] + q[2]);
+
+          if (x[d] >= 0 && isFaceVisible(a, b)) {
+            mask[n] = a;
+            front[0] = x[0] + q[0];
+            front[1] = x[1] + q[1];
+            front[2] = x[2] + q[2];
+            shades[n] = getShade(front, u, v);
+          } else if (x[d] < DIMS[d] - 1 && isFaceVisible(b, a)) {
+            mask[n] = -b;
+            shades[n] = getShade(x, u, v);
+          } else {
+            mask[n] = 0;
+          }
+          n++;
+        }
+      }
+
+      x[d]++;
+
+      // Merge equal mask entries into rectangles
+      n = 0;
+      for (let j = 0; j < DIMS[v]; j++) {
+        for (let i = 0; i < DIMS[u];) {
+          const value = mask[n];
+          const shade = shades[n];
+          if (value === 0) {
+            i++;
+            n++;
+            continue;
+          }
+
+          let width = 1;
+          while (
+            i + width < DIMS[u] &&
+            mask[n + width] === value &&
+            shades[n + width] === shade
+          ) {
+            width++;
+          }
+
+          let height = 1;
+          grow: while (j + height < DIMS[v]) {
+            for (let k = 0; k < width; k++) {
+              const next = n + k + height * DIMS[u];
+              if (mask[next] !== value || shades[next] !== shade) break grow;
+            }
+            height++;
+          }
+
+          x[u] = i;
+          x[v] = j;
+          const du = [0, 0, 0];
+          const dv = [0, 0, 0];
+          du[u] = width;
+          dv[v] = height;
+
+          // Blocks are centered on integer coordinates, so faces sit on half steps
+          const corner = [
+            origin[0] + x[0] - 0.5,
+            origin[1] + x[1] - 0.5,
+            origin[2] + x[2] - 0.5,
+          ];
+          const positive = value > 0;
+          const normal = [0, 0, 0];
+          normal[d] = positive ? 1 : -1;
+
+          // World position of the first block covered by this quad
+          const cell = [origin[0] + x[0], origin[1] + x[1], origin[2] + x[2]];
+          if (positive) cell[d] -= 1;
+
+          addQuad(
+            corner,
+            du,
+            dv,
+            normal,
+            !positive,
+            Math.abs(value),
+            AXIS_FACES[d][positive ? 0 : 1],
+            cell,
+            shade
+          );
+
+          for (let l = 0; l < height; l++) {
+            for (let k = 0; k < width; k++) {
+              mask[n + k + l * DIMS[u]] = 0;
+            }
+          }
+
+          i += width;
+          n += width;
+        }
+      }
+    }
+  }
+
+  const terrain = new BufferGeometry();
+  terrain.setAttribute('position', new Float32BufferAttribute(positions, 3));
+  terrain.setAttribute('normal', new Float32BufferAttribute(normals, 3));
+  terrain.setAttribute('color', new Float32BufferAttribute(colors, 3));
+  terrain.setAttribute('light', new Float32BufferAttribute(lights, 2));
+  terrain.setAttribute('uv', new Float32BufferAttribute(uvs, 2));
+  terrain.setAttribute('uvTile', new Float32BufferAttribute(uvTiles, 4));
+  terrain.setIndex([...opaqueIndices, ...transparentIndices, ...fluidIndices]);
+  terrain.addGroup(0, opaqueIndices.length, 0);
+  terrain.addGroup(opaqueIndices.length, transparentIndices.length, 1);
+  terrain.addGroup(
+    opaqueIndices.length + transparentIndices.length,
+    fluidIndices.length,
+    2
+  );
+
+  return {
+    terrain,
+    decorations: buildDecorationGeometry(origin, getBlock, seed, light),
+  };
+};
+
+// Merge the decorative details of every visible block into one geometry
+const buildDecorationGeometry = (
+  origin: number[],
+  getBlock: (lx: number, ly: number, lz: number) => number,
+  seed: number,
+  light: LightSampler
+): BufferGeometry | null => {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const colors: number[] = [];
+  const lights: number[] = [];
+
+  const template = BOX_TEMPLATE.getAttribute('position');
+  const templateNormals = BOX_TEMPLATE.getAttribute('normal');
+  const matrix = new Matrix4();
+  const normalMatrix = new Matrix3();
+  const quaternion = new Quaternion();
+  const euler = new Euler();
+  const translation = new Vector3();
+  const scale = new Vector3();
+  const vertex = new Vector3();
+  const color = new Color();
+
+  for (let ly = 0; ly < WORLD_HEIGHT; ly++) {
+    for (let lz = 0; lz < CHUNK_SIZE; lz++) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+        const id = getBlock(lx, ly, lz);
+        const type = getBlockType(id);
+        if (!type) continue;
+
+        // Only decorate blocks that have at least one face on show
+        const exposed =
+          isFaceVisible(id, getBlock(lx + 1, ly, lz)) ||
+          isFaceVisible(id, getBlock(lx - 1, ly, lz)) ||
+          isFaceVisible(id, getBlock(lx, ly + 1, lz)) ||
+          isFaceVisible(id, getBlock(lx, ly - 1, lz)) ||
+          isFaceVisible(id, getBlock(lx, ly, lz + 1)) ||
+          isFaceVisible(id, getBlock(lx, ly, lz - 1));
+        if (!exposed) continue;
+
+        const x = origin[0] + lx;
+        const y = origin[1] + ly;
+        const z = origin[2] + lz;
+
+        // Details take the light of the brightest cell next to their block
+        const [sky, blockLight] = [
+          light(x + 1, y, z),
+          light(x - 1, y, z),
+          light(x, y + 1, z),
+          light(x, y - 1, z),
+          light(x, y, z + 1),
+          light(x, y, z - 1),
+        ]
+          .map(getBrightness)
+          .reduce((a, b) => [Math.max(a[0], b[0]), Math.max(a[1], b[1])]);
+
+        for (const box of createDecorations(type, randomAt(seed, x, y, z))) {
+          translation.set(
+            x + box.position[0],
+            y + box.position[1],
+            z + box.position[2]
+          );
+          quaternion.setFromEuler(euler.set(...box.rotation));
+          scale.set(...box.size);
+          matrix.compose(translation, quaternion, scale);
+          normalMatrix.getNormalMatrix(matrix);
+          color.setHex(box.color);
+
+          for (let i = 0; i < template.count; i++) {
+            vertex.fromBufferAttribute(template, i).applyMatrix4(matrix);
+            positions.push(vertex.x, vertex.y, vertex.z);
+            vertex
+              .fromBufferAttribute(templateNormals, i)
+              .applyMatrix3(normalMatrix)
+              .normalize();
+            normals.push(vertex.x, vertex.y, vertex.z);
+            colors.push(color.r, color.g, color.b);
+            lights.push(sky, blockLight);
+          }
+        }
+      }
+    }
+  }
+
+  if (positions.length === 0) return null;
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('color', new Float32BufferAttribute(colors, 3));
+  geometry.setAttribute('light', new Float32BufferAttribute(lights, 2));
+  return geometry;
+};
@@ -0,0 +1,45 @@
+// How a world is played, chosen when it is created
+export type GameMode = 'creative' | 'survival';
+
+export interface GameModeDefinition {
+  name: GameMode;
+  displayName: string;
+  // Placing blocks uses nothing up, and every item can be taken from a palette
+  unlimitedItems: boolean;
+  // Breakable blocks break at the first touch, whatever their hardness
+  instantBreak: boolean;
+  // The player can leave the ground and hover
+  canFly: boolean;
+  // Broken blocks give items
+  dropsItems: boolean;
+  // The player can be hurt
+  takesDamage: boolean;
+}
+
+export const GAME_MODES: GameModeDefinition[] = [
+  {
+    name: 'survival',
+    displayName: 'Survival',
+    unlimitedItems: false,
+    instantBreak: false,
+    canFly: false,
+    dropsItems: true,
+    takesDamage: true,
+  },
+  {
+    name: 'creative',
+    displayName: 'Creative',
+    unlimitedItems: true,
+    instantBreak: true,
+    canFly: true,
+    dropsItems: false,
+    takesDamage: false,
+  },
+];
+
+// Worlds created before game modes existed are played in survival
+export const DEFAULT_GAME_MODE: GameMode = 'survival';
+
+export const getGameMode = (name: string | undefined): GameModeDefinition =>
+  GAME_MODES.find((mode) => mode.name === name) ??
+  GAME_MODES.find((mode) => mode.name === DEFAULT_GAME_MODE)!;
@@ -0,0 +1,86 @@
+import { createNoise, fractalNoise2D, fractalNoise3D } from './noise';
+import { createRandom } from './random';
+
+const OCTAVES = { scale: 0.05, octaves: 4, lacunarity: 2, persistence: 0.5 };
+
+// Just either side of a lattice line; smooth noise barely moves across it
+const EPSILON = 1e-6;
+const MAX_STEP = 1e-4;
+
+describe('noise', () => {
+  const noise = createNoise(1234);
+
+  it('stays in [-1, 1]', () => {
+    const random = createRandom(99);
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < 20000; i++) {
+      const x = (random() - 0.5) * 2000;
+      const y = (random() - 0.5) * 2000;
+      const z = (random() - 0.5) * 2000;
+      const values = [
+        noise.noise2D(x, y),
+        noise.noise3D(x, y, z),
+        fractalNoise2D(noise, x, y, OCTAVES),
+        fractalNoise3D(noise, x, y, z, OCTAVES),
+      ];
+      min = Math.min(min, ...values);
+      max = Math.max(max, ...values);
+    }
+    expect(min).toBeGreaterThanOrEqual(-1);
+    expect(max).toBeLessThanOrEqual(1);
+  });
+
+  it('is zero on lattice points', () => {
+    expect(noise.noise2D(3, -7)).toBe(0);
+    expect(noise.noise3D(3, -7, 12)).toBe(0);
+  });
+
+  it('is continuous across lattice lines and the table wrap', () => {
+    // 255 to 256 is where the permutation table wraps around
+    [-1, 0, 1, 17, 255, 256, 511, 512].forEach((edge) => {
+      for (let offset = 0.1; offset < 1; offset += 0.2) {
+        const before = edge - EPSILON;
+        const after = edge + EPSILON;
+        expect(
+          Math.abs(noise.noise2D(before, offset) - noise.noise2D(after, offset))
+        ).toBeLessThan(MAX_STEP);
+        expect(
+          Math.abs(noise.noise2D(offset, before) - noise.noise2D(offset, after))
+        ).toBeLessThan(MAX_STEP);
+        expect(
+          Math.abs(
+            noise.noise3D(before, offset, offset) -
+              noise.noise3D(after, offset, offset)
+          )
+        ).toBeLessThan(MAX_STEP);
+        expect(
+          Math.abs(
+            noise.noise3D(offset, before, offset) -
+              noise.noise3D(offset, after, offset)
+          )
+        ).toBeLessThan(MAX_STEP);
+        expect(
+          Math.abs(
+            noise.noise3D(offset, offset, before) -
+              noise.noise3D(offset, offset, after)
+          )
+        ).toBeLessThan(MAX_STEP);
+      }
+    });
+  });
+
+  it('gives the same values for the same seed', () => {
+    const other = createNoise(1234);
+    const different = createNoise(4321);
+    let differs = false;
+    for (let i = 0; i < 100; i++) {
+      const x = i * 1.37 - 40;
+      const y = i * 0.71 + 3;
+      expect(other.noise2D(x, y)).toBe(noise.noise2D(x, y));
+      expect(other.noise3D(x, y, -x)).toBe(noise.noise3D(x, y, -x));
+      if (different.noise2D(x, y) !== noise.noise2D(x, y)) differs = true;
+    }
+    expect(differs).toBe(true);
+  });
+});
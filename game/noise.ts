@@ -0,0 +1,197 @@
+import { createRandom } from './random';
+
+// Settings for fractal (multi-octave) noise
+export interface NoiseOctaves {
+  // Frequency of the first octave, in cycles per block
+  scale: number;
+  // Number of noise layers summed together
+  octaves: number;
+  // Frequency multiplier between octaves
+  lacunarity: number;
+  // Amplitude multiplier between octaves
+  persistence: number;
+}
+
+export interface Noise {
+  // Smooth 2D gradient noise in the range [-1, 1]
+  noise2D: (x: number, y: number) => number;
+  // Smooth 3D gradient noise in the range [-1, 1]. Improved Perlin noise
+  // reaches about ±1.04 in 3D, so the rare peaks past that are clamped.
+  noise3D: (x: number, y: number, z: number) => number;
+}
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+const lerp = (a: number, b: number, t: number) => a + t * (b - a);
+
+// Dot product with one of 8 evenly spaced 2D gradients
+const grad2 = (hash: number, x: number, y: number) => {
+  switch (hash & 7) {
+    case 0:
+      return x + y;
+    case 1:
+      return -x + y;
+    case 2:
+      return x - y;
+    case 3:
+      return -x - y;
+    case 4:
+      return x;
+    case 5:
+      return -x;
+    case 6:
+      return y;
+    default:
+      return -y;
+  }
+};
+
+// Dot product with one of the 12 cube-edge gradients from improved Perlin noise
+const grad3 = (hash: number, x: number, y: number, z: number) => {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+};
+
+// Build Perlin noise functions from a seeded permutation table
+export const createNoise = (seed: number): Noise => {
+  const random = createRandom(seed);
+  const permutation = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    permutation[i] = i;
+  }
+
+  // Fisher-Yates shuffle driven by the seed
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const swap = permutation[i];
+    permutation[i] = permutation[j];
+    permutation[j] = swap;
+  }
+
+  // Duplicate the table so lookups never need to wrap
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) {
+    perm[i] = permutation[i & 255];
+  }
+
+  const noise2D = (x: number, y: number) => {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const X = xi & 255;
+    const Y = yi & 255;
+    const xf = x - xi;
+    const yf = y - yi;
+    const u = fade(xf);
+    const v = fade(yf);
+
+    const aa = perm[perm[X] + Y];
+    const ab = perm[perm[X] + Y + 1];
+    const ba = perm[perm[X + 1] + Y];
+    const bb = perm[perm[X + 1] + Y + 1];
+
+    return lerp(
+      lerp(grad2(aa, xf, yf), grad2(ba, xf - 1, yf), u),
+      lerp(grad2(ab, xf, yf - 1), grad2(bb, xf - 1, yf - 1), u),
+      v
+    );
+  };
+
+  const noise3D = (x: number, y: number, z: number) => {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const zi = Math.floor(z);
+    const X = xi & 255;
+    const Y = yi & 255;
+    const Z = zi & 255;
+    const xf = x - xi;
+    const yf = y - yi;
+    const zf = z - zi;
+    const u = fade(xf);
+    const v = fade(yf);
+    const w = fade(zf);
+
+    const a = perm[X] + Y;
+    const aa = perm[a] + Z;
+    const ab = perm[a + 1] + Z;
+    const b = perm[X + 1] + Y;
+    const ba = perm[b] + Z;
+    const bb = perm[b + 1] + Z;
+
+    const value = lerp(
+      lerp(
+        lerp(grad3(perm[aa], xf, yf, zf), grad3(perm[ba], xf - 1, yf, zf), u),
+        lerp(
+          grad3(perm[ab], xf, yf - 1, zf),
+          grad3(perm[bb], xf - 1, yf - 1, zf),
+          u
+        ),
+        v
+      ),
+      lerp(
+        lerp(
+          grad3(perm[aa + 1], xf, yf, zf - 1),
+          grad3(perm[ba + 1], xf - 1, yf, zf - 1),
+          u
+        ),
+        lerp(
+          grad3(perm[ab + 1], xf, yf - 1, zf - 1),
+          grad3(perm[bb + 1], xf - 1, yf - 1, zf - 1),
+          u
+        ),
+        v
+      ),
+      w
+    );
+    return Math.max(-1, Math.min(1, value));
+  };
+
+  return { noise2D, noise3D };
+};
+
+// Sum several octaves of 2D noise, normalized back to [-1, 1]
+export const fractalNoise2D = (
+  noise: Noise,
+  x: number,
+  y: number,
+  settings: NoiseOctaves
+) => {
+  let frequency = settings.scale;
+  let amplitude = 1;
+  let total = 0;
+  let maxAmplitude = 0;
+
+  for (let i = 0; i < settings.octaves; i++) {
+    total += noise.noise2D(x * frequency, y * frequency) * amplitude;
+    maxAmplitude += amplitude;
+    frequency *= settings.lacunarity;
+    amplitude *= settings.persistence;
+  }
+
+  return maxAmplitude > 0 ? total / maxAmplitude : 0;
+};
+
+// Sum several octaves of 3D noise, normalized back to [-1, 1]
+export const fractalNoise3D = (
+  noise: Noise,
+  x: number,
+  y: number,
+  z: number,
+  settings: NoiseOctaves
+) => {
+  let frequency = settings.scale;
+  let amplitude = 1;
+  let total = 0;
+  let maxAmplitude = 0;
+
+  for (let i = 0; i < settings.octaves; i++) {
+    total +=
+      noise.noise3D(x * frequency, y * frequency, z * frequency) * amplitude;
+    maxAmplitude += amplitude;
+    frequency *= settings.lacunarity;
+    amplitude *= settings.persistence;
+  }
+
+  return maxAmplitude > 0 ? total / maxAmplitude : 0;
+};
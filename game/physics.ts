@@ -0,0 +1,110 @@
+import { Box3, Vector3 } from 'three';
+
+// Tells whether the block at world coordinates stops movement
+export type SolidSampler = (x: number, y: number, z: number) => boolean;
+
+export interface CollisionResult {
+  // Axes on which the movement was cut short by a block
+  x: boolean;
+  y: boolean;
+  z: boolean;
+  // Landed on top of a block
+  onGround: boolean;
+  // Hit the underside of a block while moving up
+  hitCeiling: boolean;
+}
+
+// Tolerance for a box resting exactly against a block face
+const EPSILON = 1e-6;
+
+const AXES = ['x', 'y', 'z'] as const;
+
+// Move the box along one axis as far as it can go without entering a solid
+// block. Returns the distance actually moved.
+const sweepAxis = (
+  box: Box3,
+  axis: 0 | 1 | 2,
+  distance: number,
+  isSolid: SolidSampler
+) => {
+  if (distance === 0) return 0;
+
+  const [u, v] = [(axis + 1) % 3, (axis + 2) % 3];
+  const min = box.min.toArray();
+  const max = box.max.toArray();
+
+  // Cells the box covers across the movement; blocks are centered on
+  // integer coordinates, so a cell c spans c - 0.5..c + 0.5
+  const minU = Math.round(min[u] + EPSILON);
+  const maxU = Math.round(max[u] - EPSILON);
+  const minV = Math.round(min[v] + EPSILON);
+  const maxV = Math.round(max[v] - EPSILON);
+
+  const cell = [0, 0, 0];
+  const isLayerSolid = (layer: number) => {
+    cell[axis] = layer;
+    for (cell[u] = minU; cell[u] <= maxU; cell[u]++) {
+      for (cell[v] = minV; cell[v] <= maxV; cell[v]++) {
+        if (isSolid(cell[0], cell[1], cell[2])) return true;
+      }
+    }
+    return false;
+  };
+
+  if (distance > 0) {
+    // First layer whose near face is ahead of the box
+    for (
+      let layer = Math.ceil(max[axis] - EPSILON + 0.5);
+      layer - 0.5 < max[axis] + distance;
+      layer++
+    ) {
+      if (isLayerSolid(layer)) {
+        distance = Math.max(0, layer - 0.5 - max[axis]);
+        break;
+      }
+    }
+  } else {
+    for (
+      let layer = Math.floor(min[axis] + EPSILON - 0.5);
+      layer + 0.5 > min[axis] + distance;
+      layer--
+    ) {
+      if (isLayerSolid(layer)) {
+        distance = Math.min(0, layer + 0.5 - min[axis]);
+        break;
+      }
+    }
+  }
+
+  const offset = new Vector3();
+  offset.setComponent(axis, distance);
+  box.translate(offset);
+  return distance;
+};
+
+// Move an axis-aligned box through the voxel grid one axis at a time (Y first,
+// then X and Z), so a blocked axis doesn't stop movement along the others and
+// the box slides along walls instead of sticking to them
+export const moveBox = (
+  box: Box3,
+  motion: Vector3,
+  isSolid: SolidSampler
+): CollisionResult => {
+  const result: CollisionResult = {
+    x: false,
+    y: false,
+    z: false,
+    onGround: false,
+    hitCeiling: false,
+  };
+
+  ([1, 0, 2] as const).forEach((axis) => {
+    const wanted = motion.getComponent(axis);
+    const moved = sweepAxis(box, axis, wanted, isSolid);
+    result[AXES[axis]] = Math.abs(moved - wanted) > EPSILON;
+  });
+
+  result.onGround = result.y && motion.y < 0;
+  result.hitCeiling = result.y && motion.y > 0;
+  return result;
+};
@@ -0,0 +1,44 @@
+// A random number generator returning values in [0, 1)
+export type Random = () => number;
+
+// Turn a user-facing seed string into a 32-bit integer (FNV-1a)
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mix integer coordinates into a seed so every position gets its own stream
+export const hashCoords = (seed: number, ...coords: number[]): number => {
+  let hash = seed >>> 0;
+  for (const coord of coords) {
+    hash = Math.imul(hash ^ Math.round(coord), 0x9e3779b1);
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for procedural generation
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Random stream tied to a world position, independent of generation order
+export const randomAt = (seed: number, x: number, y: number, z: number) =>
+  createRandom(hashCoords(seed, x, y, z));
+
+// Pick a fresh seed for a new world
+export const generateSeed = () =>
+  Math.floor(Math.random() * 1_000_000_000).toString();
@@ -0,0 +1,88 @@
+import { Vector3 } from 'three';
+import { AIR, BlockFace } from './blocks';
+import { BlockSampler } from './mesher';
+import { raycastVoxels } from './raycast';
+
+const SOLID = 1;
+
+// A world with solid blocks only at the given cells
+const stubWorld = (...cells: number[][]): BlockSampler => {
+  const solid = new Set(cells.map((cell) => cell.join(',')));
+  return (x, y, z) => (solid.has(`${x},${y},${z}`) ? SOLID : AIR);
+};
+
+describe('raycastVoxels', () => {
+  it('returns the first solid cell along the ray', () => {
+    const hit = raycastVoxels(
+      new Vector3(0, 0, 0),
+      new Vector3(1, 0, 0),
+      10,
+      stubWorld([3, 0, 0], [5, 0, 0])
+    );
+    expect(hit?.position.toArray()).toEqual([3, 0, 0]);
+    expect(hit?.distance).toBeCloseTo(2.5);
+  });
+
+  it.each([
+    [[1, 0, 0], [3, 0, 0], BlockFace.Left, [2, 0, 0]],
+    [[-1, 0, 0], [-3, 0, 0], BlockFace.Right, [-2, 0, 0]],
+    [[0, 1, 0], [0, 3, 0], BlockFace.Bottom, [0, 2, 0]],
+    [[0, -1, 0], [0, -3, 0], BlockFace.Top, [0, -2, 0]],
+    [[0, 0, 1], [0, 0, 3], BlockFace.Back, [0, 0, 2]],
+    [[0, 0, -1], [0, 0, -3], BlockFace.Front, [0, 0, -2]],
+  ])(
+    'moving along %p enters %p through face %p with %p in front',
+    (direction, block, face, adjacent) => {
+      const hit = raycastVoxels(
+        new Vector3(0, 0, 0),
+        new Vector3(...direction),
+        10,
+        stubWorld(block)
+      );
+      expect(hit?.face).toBe(face);
+      expect(hit?.adjacent.toArray()).toEqual(adjacent);
+      expect(hit?.normal.dot(new Vector3(...direction))).toBe(-1);
+    }
+  );
+
+  it('walks diagonal rays cell by cell', () => {
+    const hit = raycastVoxels(
+      new Vector3(0.2, 0.1, 0),
+      new Vector3(1, 1, 0),
+      10,
+      stubWorld([2, 2, 0])
+    );
+    // Boundaries are crossed x, y, x, y, so the last step was upwards
+    expect(hit?.position.toArray()).toEqual([2, 2, 0]);
+    expect(hit?.face).toBe(BlockFace.Bottom);
+    expect(hit?.adjacent.toArray()).toEqual([2, 1, 0]);
+  });
+
+  it('stops at maxDistance', () => {
+    const world = stubWorld([5, 0, 0]);
+    const ray = [new Vector3(0, 0, 0), new Vector3(1, 0, 0)] as const;
+    expect(raycastVoxels(...ray, 4, world)).toBeNull();
+    expect(raycastVoxels(...ray, 4.5, world)?.position.x).toBe(5);
+  });
+
+  it('skips the cell the ray starts in', () => {
+    const hit = raycastVoxels(
+      new Vector3(0.3, 0, 0),
+      new Vector3(1, 0, 0),
+      10,
+      stubWorld([0, 0, 0], [2, 0, 0])
+    );
+    expect(hit?.position.toArray()).toEqual([2, 0, 0]);
+  });
+
+  it('returns null for a zero-length direction', () => {
+    expect(
+      raycastVoxels(
+        new Vector3(0, 0, 0),
+        new Vector3(0, 0, 0),
+        10,
+        stubWorld([0, 0, 0], [1, 0, 0])
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { Vector3 } from 'three';
+import { AIR, BlockFace } from './blocks';
+import { BlockSampler } from './mesher';
+
+export interface VoxelHit {
+  // Cell of the block that was hit
+  position: Vector3;
+  // Face of that block the ray entered through
+  face: BlockFace;
+  normal: Vector3;
+  // Empty cell in front of the hit face, where a placed block would go
+  adjacent: Vector3;
+  // Distance along the ray to the hit face
+  distance: number;
+}
+
+// Faces hit when entering a cell along each axis, moving in the positive and
+// negative direction
+const ENTRY_FACES = [
+  [BlockFace.Left, BlockFace.Right],
+  [BlockFace.Bottom, BlockFace.Top],
+  [BlockFace.Back, BlockFace.Front],
+];
+
+// Walk the grid cell by cell along a ray (Amanatides & Woo) and return the
+// first non-air block within maxDistance. The cell the ray starts in is
+// skipped, so the player can't target the block they are standing inside.
+export const raycastVoxels = (
+  origin: Vector3,
+  direction: Vector3,
+  maxDistance: number,
+  getBlock: BlockSampler
+): VoxelHit | null => {
+  const dir = direction.clone().normalize();
+  if (dir.lengthSq() === 0) return null;
+
+  const start = [origin.x, origin.y, origin.z];
+  const delta = [dir.x, dir.y, dir.z];
+
+  // Blocks are centered on integer coordinates, so cells span c - 0.5..c + 0.5
+  const cell = start.map(Math.round);
+  const step = delta.map(Math.sign);
+  const tDelta = delta.map((d) => (d === 0 ? Infinity : Math.abs(1 / d)));
+  const tMax = delta.map((d, axis) => {
+    if (d === 0) return Infinity;
+    const boundary = cell[axis] + step[axis] * 0.5;
+    return (boundary - start[axis]) / d;
+  });
+
+  for (;;) {
+    // Step across the nearest cell boundary
+    let axis = 0;
+    if (tMax[1] < tMax[axis]) axis = 1;
+    if (tMax[2] < tMax[axis]) axis = 2;
+
+    const distance = tMax[axis];
+    if (distance > maxDistance) return null;
+
+    cell[axis] += step[axis];
+    tMax[axis] += tDelta[axis];
+
+    if (getBlock(cell[0], cell[1], cell[2]) === AIR) continue;
+
+    const normal = new Vector3();
+    normal.setComponent(axis, -step[axis]);
+    const position = new Vector3(cell[0], cell[1], cell[2]);
+
+    return {
+      position,
+      face: ENTRY_FACES[axis][step[axis] > 0 ? 0 : 1],
+      normal,
+      adjacent: position.clone().add(normal),
+      distance,
+    };
+  }
+};
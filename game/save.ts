@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { START_TIME } from './daylight';
+import { MAX_HEALTH } from './health';
+
+// Bump this whenever the shape of WorldSave changes and add a migration below
+export const SAVE_VERSION = 4;
+
+// How often the world is written to storage while playing
+export const AUTOSAVE_INTERVAL = 30000;
+
+const saveKey = (worldId: string) => `vibecraft:world:${worldId}`;
+
+// Storage key used before multiple worlds were supported
+const LEGACY_SAVE_KEY = 'vibecraft:world';
+
+export interface SavedPlayer {
+  position: { x: number; y: number; z: number };
+  // Camera pitch (x) and yaw (y) in radians
+  rotation: { x: number; y: number };
+  // In half hearts
+  health: number;
+}
+
+export interface SavedInventoryItem {
+  type: string;
+  count: number;
+}
+
+export interface WorldSave {
+  version: typeof SAVE_VERSION;
+  seed: string;
+  // Blocks changed by the player or by block behaviours keyed by "x,y,z": a
+  // block type name, or null when the generated block was broken. Names (not
+  // indices) keep saves valid when block types are added or reordered.
+  edits: Record<string, string | null>;
+  player: SavedPlayer;
+  // Where the player respawns, null until the world has first been entered
+  spawn: { x: number; y: number; z: number } | null;
+  // Game loop ticks since the world was created, driving the time of day
+  time: number;
+  // One entry per inventory slot, null for empty slots
+  inventory: Array<SavedInventoryItem | null>;
+  savedAt: number;
+}
+
+// Shapes written by older versions, each upgraded one version at a time
+interface SaveV1 extends Omit<
+  WorldSave,
+  'version' | 'player' | 'spawn' | 'time' | 'inventory'
+> {
+  version: 1;
+  player: Omit<SavedPlayer, 'health'>;
+  // One stack per item type
+  inventory: SavedInventoryItem[];
+}
+
+interface SaveV2 extends Omit<SaveV1, 'version' | 'inventory'> {
+  version: 2;
+  inventory: Array<SavedInventoryItem | null>;
+}
+
+interface SaveV3 extends Omit<WorldSave, 'version' | 'time'> {
+  version: 3;
+}
+
+type StoredSave = SaveV1 | SaveV2 | SaveV3 | WorldSave;
+
+// Inventories were one stack per item type; they now fill the first slots,
+// and empty or oversized stacks are fixed up when the inventory is restored
+const upgradeV1 = (save: SaveV1): SaveV2 => ({ ...save, version: 2 });
+
+// Players start at full health, and the spawn point is found again
+const upgradeV2 = (save: SaveV2): SaveV3 => ({
+  ...save,
+  version: 3,
+  player: { ...save.player, health: MAX_HEALTH },
+  spawn: null,
+});
+
+// Worlds saved before the day/night cycle start the clock in the morning
+const upgradeV3 = (save: SaveV3): WorldSave => ({
+  ...save,
+  version: 4,
+  time: START_TIME,
+});
+
+const isStoredSave = (data: unknown): data is StoredSave =>
+  typeof data === 'object' &&
+  data !== null &&
+  'version' in data &&
+  typeof data.version === 'number' &&
+  Number.isInteger(data.version) &&
+  data.version >= 1 &&
+  data.version <= SAVE_VERSION;
+
+// Only the version is checked here; edits, health and the inventory are
+// sanitized as the world is restored
+const migrate = (data: unknown): WorldSave | null => {
+  if (!isStoredSave(data)) return null;
+
+  let save = data;
+  if (save.version === 1) save = upgradeV1(save);
+  if (save.version === 2) save = upgradeV2(save);
+  if (save.version === 3) save = upgradeV3(save);
+  return save;
+};
+
+export const saveWorld = async (
+  worldId: string,
+  save: Omit<WorldSave, 'version' | 'savedAt'>
+) => {
+  const data: WorldSave = {
+    ...save,
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+  };
+
+  try {
+    await AsyncStorage.setItem(saveKey(worldId), JSON.stringify(data));
+  } catch (error) {
+    console.warn('Failed to save world:', error);
+  }
+};
+
+export const loadWorld = async (worldId: string): Promise<WorldSave | null> => {
+  try {
+    const json = await AsyncStorage.getItem(saveKey(worldId));
+    if (!json) return null;
+
+    const save = migrate(JSON.parse(json));
+    if (!save) {
+      console.warn('Ignoring save with unsupported version');
+    }
+    return save;
+  } catch (error) {
+    console.warn('Failed to load world:', error);
+    return null;
+  }
+};
+
+export const copyWorldSave = async (fromWorldId: string, toWorldId: string) => {
+  const json = await AsyncStorage.getItem(saveKey(fromWorldId));
+  if (json) {
+    await AsyncStorage.setItem(saveKey(toWorldId), json);
+  }
+};
+
+export const deleteWorldSave = (worldId: string) =>
+  AsyncStorage.removeItem(saveKey(worldId));
+
+// Move the single save written before multiple worlds existed under a world id
+export const adoptLegacySave = async (
+  worldId: string
+): Promise<WorldSave | null> => {
+  try {
+    const json = await AsyncStorage.getItem(LEGACY_SAVE_KEY);
+    if (!json) return null;
+
+    // A save that can't be read stays where it is rather than becoming a
+    // world that can't be loaded
+    const save = migrate(JSON.parse(json));
+    if (!save) {
+      console.warn('Keeping legacy save with unsupported version');
+      return null;
+    }
+
+    await AsyncStorage.setItem(saveKey(worldId), json);
+    await AsyncStorage.removeItem(LEGACY_SAVE_KEY);
+    return save;
+  } catch (error) {
+    console.warn('Failed to adopt legacy save:', error);
+    return null;
+  }
+};
@@ -0,0 +1,218 @@
+import STRUCTURE_DATA from './structures.json';
+import { BIOMES, BiomeType } from './biomes';
+import { AIR, getBlockId, isBlockType } from './blocks';
+import { Random } from './random';
+
+// A structure as written in structures.json. Layers go from the bottom up;
+// each is a list of rows along z with one character per block along x. The
+// palette maps characters to blocks, "air" clears a cell, and a space leaves
+// whatever the terrain has there.
+export interface StructureData {
+  name: string;
+  // Chance of starting on a surface column, for each biome it appears in
+  biomes: Record<string, number>;
+  palette: Record<string, string>;
+  layers: string[][];
+  // Layers buried below the surface, for foundations and wells
+  sink?: number;
+  // Most the ground may rise or fall under the footprint
+  maxGroundVariation?: number;
+}
+
+export interface Structure {
+  name: string;
+  rarity: Partial<Record<BiomeType, number>>;
+  // Size along x, y and z before turning
+  sizeX: number;
+  height: number;
+  sizeZ: number;
+  // Block ids laid out as [y][z][x]; null keeps the terrain's block
+  blocks: Array<number | null>;
+  sink: number;
+  maxGroundVariation: number;
+}
+
+// Quarter turns around the vertical axis, applied after mirroring along x
+export type StructureRotation = 0 | 1 | 2 | 3;
+
+export interface StructurePlacement {
+  structure: Structure;
+  // World position of the footprint corner with the lowest x and z, at the
+  // height of the bottom layer
+  x: number;
+  y: number;
+  z: number;
+  rotation: StructureRotation;
+  mirror: boolean;
+}
+
+const DEFAULT_GROUND_VARIATION = 1;
+
+const BIOME_NAMES = new Set<string>(BIOMES.map((biome) => biome.name));
+
+const parseStructure = (data: StructureData): Structure => {
+  const { name, layers } = data;
+  const height = layers.length;
+  const sizeZ = Math.max(0, ...layers.map((rows) => rows.length));
+  const sizeX = Math.max(
+    0,
+    ...layers.flatMap((rows) => rows.map((row) => row.length))
+  );
+  if (sizeX === 0 || sizeZ === 0) {
+    throw new Error(`Structure "${name}" has no blocks`);
+  }
+
+  const palette = new Map<string, number>();
+  Object.entries(data.palette).forEach(([char, block]) => {
+    if (char.length !== 1 || char === ' ') {
+      throw new Error(`Structure "${name}" has palette key "${char}"`);
+    }
+    if (block !== 'air' && !isBlockType(block)) {
+      throw new Error(`Structure "${name}" uses unknown block "${block}"`);
+    }
+    palette.set(char, block === 'air' ? AIR : getBlockId(block));
+  });
+
+  // Short rows and missing rows are padded with spaces
+  const blocks = layers.flatMap((rows) =>
+    Array.from({ length: sizeZ }, (_, z) =>
+      Array.from((rows[z] ?? '').padEnd(sizeX), (char) => {
+        if (char === ' ') return null;
+        const id = palette.get(char);
+        if (id === undefined) {
+          throw new Error(`Structure "${name}" has no palette entry "${char}"`);
+        }
+        return id;
+      })
+    ).flat()
+  );
+
+  const rarity: Structure['rarity'] = {};
+  Object.entries(data.biomes).forEach(([biome, chance]) => {
+    if (!BIOME_NAMES.has(biome)) {
+      throw new Error(`Structure "${name}" uses unknown biome "${biome}"`);
+    }
+    if (!(chance >= 0 && chance <= 1)) {
+      throw new Error(`Structure "${name}" has invalid rarity ${chance}`);
+    }
+    rarity[biome as BiomeType] = chance;
+  });
+
+  const sink = data.sink ?? 0;
+  if (!Number.isInteger(sink) || sink < 0 || sink >= height) {
+    throw new Error(`Structure "${name}" has invalid sink ${sink}`);
+  }
+
+  return {
+    name,
+    rarity,
+    sizeX,
+    height,
+    sizeZ,
+    blocks,
+    sink,
+    maxGroundVariation: data.maxGroundVariation ?? DEFAULT_GROUND_VARIATION,
+  };
+};
+
+// Check structure data against the registries, so a typo fails on startup
+// instead of placing the wrong blocks
+export const parseStructures = (data: StructureData[]): Structure[] =>
+  data.map(parseStructure);
+
+// JSON imports type each structure's biomes and palette separately, so the
+// array is widened through unknown
+export const STRUCTURES = parseStructures(
+  STRUCTURE_DATA as unknown as StructureData[]
+);
+
+const structuresByName = new Map<string, Structure>(
+  STRUCTURES.map((structure) => [structure.name, structure])
+);
+
+export const getStructure = (name: string): Structure | null =>
+  structuresByName.get(name) ?? null;
+
+// Width along x and depth along z of a structure once turned
+export const getFootprint = (
+  structure: Structure,
+  rotation: StructureRotation
+): [number, number] =>
+  rotation % 2 === 0
+    ? [structure.sizeX, structure.sizeZ]
+    : [structure.sizeZ, structure.sizeX];
+
+// Where a template cell ends up in the footprint after mirroring and turning
+const transformCell = (
+  structure: Structure,
+  rotation: StructureRotation,
+  mirror: boolean,
+  x: number,
+  z: number
+): [number, number] => {
+  let width = structure.sizeX;
+  let depth = structure.sizeZ;
+  let tx = mirror ? width - 1 - x : x;
+  let tz = z;
+  for (let turn = 0; turn < rotation; turn++) {
+    [tx, tz] = [depth - 1 - tz, tx];
+    [width, depth] = [depth, width];
+  }
+  return [tx, tz];
+};
+
+// Visit every block a placed structure sets, in world coordinates
+export const forEachStructureBlock = (
+  { structure, x, y, z, rotation, mirror }: StructurePlacement,
+  callback: (x: number, y: number, z: number, id: number) => void
+) => {
+  const { sizeX, sizeZ, height, blocks } = structure;
+  for (let ly = 0; ly < height; ly++) {
+    for (let lz = 0; lz < sizeZ; lz++) {
+      for (let lx = 0; lx < sizeX; lx++) {
+        const id = blocks[(ly * sizeZ + lz) * sizeX + lx];
+        if (id === null) continue;
+        const [dx, dz] = transformCell(structure, rotation, mirror, lx, lz);
+        callback(x + dx, y + ly, z + dz, id);
+      }
+    }
+  }
+};
+
+// Height of the bottom layer for a structure with its footprint corner at x,
+// z, or null when the ground there is missing or too uneven. getSurface
+// gives the top block of a column, or null where nothing can be built.
+export const findStructureBase = (
+  structure: Structure,
+  rotation: StructureRotation,
+  x: number,
+  z: number,
+  getSurface: (x: number, z: number) => number | null
+): number | null => {
+  const [width, depth] = getFootprint(structure, rotation);
+  let lowest = Infinity;
+  let highest = -Infinity;
+
+  for (let dz = 0; dz < depth; dz++) {
+    for (let dx = 0; dx < width; dx++) {
+      const surface = getSurface(x + dx, z + dz);
+      if (surface === null) return null;
+      lowest = Math.min(lowest, surface);
+      highest = Math.max(highest, surface);
+    }
+  }
+
+  if (highest - lowest > structure.maxGroundVariation) return null;
+
+  // Stand on the highest ground, so nothing pokes up through the floor
+  return highest + 1 - structure.sink;
+};
+
+// Roll every structure that can appear in a biome, returning the first hit
+export const pickStructure = (
+  biome: string,
+  random: Random
+): Structure | null =>
+  STRUCTURES.find(
+    (structure) => random() < (structure.rarity[biome as BiomeType] ?? 0)
+  ) ?? null;
@@ -0,0 +1,33 @@
+import { getBlockId } from './blocks';
+import { CHUNK_SIZE, voxelIndex } from './chunks';
+import { DEFAULT_TERRAIN_CONFIG, generateTerrain } from './terrain';
+
+describe('generateTerrain', () => {
+  it('gives the same blocks for the same seed and chunk', () => {
+    const first = generateTerrain(42, 3, -2, DEFAULT_TERRAIN_CONFIG);
+    generateTerrain(7, 3, -2, DEFAULT_TERRAIN_CONFIG);
+    const again = generateTerrain(42, 3, -2, DEFAULT_TERRAIN_CONFIG);
+    expect(again).toEqual(first);
+  });
+
+  it('gives different blocks for different seeds and chunks', () => {
+    const chunk = generateTerrain(42, 0, 0, DEFAULT_TERRAIN_CONFIG);
+    expect(generateTerrain(43, 0, 0, DEFAULT_TERRAIN_CONFIG)).not.toEqual(
+      chunk
+    );
+    expect(generateTerrain(42, 1, 0, DEFAULT_TERRAIN_CONFIG)).not.toEqual(
+      chunk
+    );
+  });
+
+  it('lays bedrock under every column', () => {
+    const voxels = generateTerrain(42, -1, 5, DEFAULT_TERRAIN_CONFIG);
+    const bedrock = getBlockId('bedrock');
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        const index = voxelIndex(x, DEFAULT_TERRAIN_CONFIG.bedrockLevel, z);
+        expect(voxels[index]).toBe(bedrock);
+      }
+    }
+  });
+});
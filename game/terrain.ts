@@ -0,0 +1,547 @@
+import { AIR, BlockType, getBlockById, getBlockId } from './blocks';
+import { TreeShape, getBiomeColumn } from './biomes';
+import {
+  CHUNK_SIZE,
+  CHUNK_VOLUME,
+  isInsideWorldHeight,
+  voxelIndex,
+  worldToLocal,
+} from './chunks';
+import {
+  Noise,
+  NoiseOctaves,
+  createNoise,
+  fractalNoise2D,
+  fractalNoise3D,
+} from './noise';
+import { createRandom, hashCoords } from './random';
+import {
+  StructureRotation,
+  findStructureBase,
+  forEachStructureBlock,
+  getFootprint,
+  pickStructure,
+} from './structures';
+import { NEIGHBOURS } from './voxels';
+
+// Noise layer compared against a threshold to decide if a feature appears
+export interface NoiseFeature extends NoiseOctaves {
+  // Feature appears where the noise (in [-1, 1]) is above this value
+  threshold: number;
+}
+
+// Clusters of one ore, scattered through the stone of every chunk
+export interface OreVein {
+  block: BlockType;
+  // Lowest and highest height a vein can start at
+  minHeight: number;
+  maxHeight: number;
+  // Veins started in each chunk, and the most blocks in one vein
+  veinsPerChunk: number;
+  veinSize: number;
+}
+
+export interface TerrainConfig {
+  // Rolling hills that shape the surface, scaled by each biome's height range
+  height: NoiseOctaves;
+  // Climate layers that decide the biome of each column
+  temperature: NoiseOctaves;
+  humidity: NoiseOctaves;
+  // How far apart two climates can be and still blend, in noise units
+  biomeBlend: number;
+  // Patches of bare stone on high ground
+  stoneOutcrops: NoiseFeature;
+  // Minimum surface height for stone outcrops to appear
+  stoneOutcropMinHeight: number;
+  // Variation in the dirt layer between grass and stone
+  dirtDepth: NoiseOctaves;
+  // Smallest and largest number of dirt blocks under grass
+  minDirtDepth: number;
+  maxDirtDepth: number;
+  // Pockets of dirt mixed into the stone layer
+  dirtPockets: NoiseFeature;
+  // Winding tunnels, carved where two noise layers are both close to zero
+  caveTunnels: NoiseOctaves;
+  // How close to zero both layers must be; wider tunnels as it grows
+  caveTunnelWidth: number;
+  // Large open caverns
+  caveCaverns: NoiseFeature;
+  // Caves squashed vertically by this much, so they run more sideways
+  caveFlattening: number;
+  // Ores from most to least common; rarer ones sit deeper
+  ores: OreVein[];
+  // Columns whose surface is below this height are filled with water up to it
+  seaLevel: number;
+  // Height of the unbreakable bottom layer
+  bedrockLevel: number;
+}
+
+export const DEFAULT_TERRAIN_CONFIG: TerrainConfig = {
+  height: {
+    scale: 0.02,
+    octaves: 4,
+    lacunarity: 2,
+    persistence: 0.5,
+  },
+  temperature: {
+    scale: 0.004,
+    octaves: 2,
+    lacunarity: 2,
+    persistence: 0.5,
+  },
+  humidity: {
+    scale: 0.005,
+    octaves: 2,
+    lacunarity: 2,
+    persistence: 0.5,
+  },
+  biomeBlend: 0.12,
+  stoneOutcrops: {
+    scale: 0.08,
+    octaves: 2,
+    lacunarity: 2,
+    persistence: 0.5,
+    threshold: 0.35,
+  },
+  stoneOutcropMinHeight: 3,
+  dirtDepth: {
+    scale: 0.1,
+    octaves: 1,
+    lacunarity: 2,
+    persistence: 0.5,
+  },
+  minDirtDepth: 2,
+  maxDirtDepth: 3,
+  dirtPockets: {
+    scale: 0.15,
+    octaves: 2,
+    lacunarity: 2,
+    persistence: 0.5,
+    threshold: 0.45,
+  },
+  caveTunnels: {
+    scale: 0.04,
+    octaves: 2,
+    lacunarity: 2,
+    persistence: 0.5,
+  },
+  caveTunnelWidth: 0.06,
+  caveCaverns: {
+    scale: 0.03,
+    octaves: 2,
+    lacunarity: 2,
+    persistence: 0.5,
+    threshold: 0.45,
+  },
+  caveFlattening: 2,
+  ores: [
+    {
+      block: 'coal_ore',
+      minHeight: -6,
+      maxHeight: 32,
+      veinsPerChunk: 8,
+      veinSize: 10,
+    },
+    {
+      block: 'iron_ore',
+      minHeight: -6,
+      maxHeight: 8,
+      veinsPerChunk: 5,
+      veinSize: 7,
+    },
+    {
+      block: 'gold_ore',
+      minHeight: -6,
+      maxHeight: 0,
+      veinsPerChunk: 2,
+      veinSize: 6,
+    },
+    {
+      block: 'diamond_ore',
+      minHeight: -6,
+      maxHeight: -3,
+      veinsPerChunk: 1,
+      veinSize: 4,
+    },
+  ],
+  seaLevel: 1,
+  bedrockLevel: -7,
+};
+
+// Cave noise layers are read this far apart so they don't line up
+const CAVE_LAYER_OFFSET = 5000;
+
+// Building the permutation table is the slow part of createNoise, so the
+// noise of the last seed is kept for the next chunk
+let cachedNoise: { seed: number; noise: Noise } | null = null;
+
+const getNoise = (seed: number) => {
+  if (cachedNoise?.seed !== seed) {
+    cachedNoise = { seed, noise: createNoise(seed) };
+  }
+  return cachedNoise.noise;
+};
+
+// Generate the blocks of one chunk from the world seed alone: terrain layers
+// shaped by biomes, caves, water, trees, structures and ore veins. Player
+// edits are not included.
+export const generateTerrain = (
+  seed: number,
+  cx: number,
+  cz: number,
+  config: TerrainConfig
+): Uint8Array => {
+  const voxels = new Uint8Array(CHUNK_VOLUME);
+
+  // Per-chunk stream for trees, so the result never depends on load order
+  const random = createRandom(hashCoords(seed, cx, cz));
+
+  // Gradient noise shared by every terrain layer, seeded by the world
+  const noise = getNoise(seed);
+  const stoneId = getBlockId('stone');
+
+  // Write a generated block into this chunk's voxels
+  const placeBlock = (x: number, y: number, z: number, type: BlockType) => {
+    if (!isInsideWorldHeight(y)) return;
+    voxels[voxelIndex(worldToLocal(x), y, worldToLocal(z))] = getBlockId(type);
+  };
+
+  // Function to generate a tree at a specific position
+  const generateOak = (x: number, z: number, baseHeight: number) => {
+    // Create the trunk (3-5 blocks tall)
+    const trunkHeight = Math.floor(random() * 3) + 3;
+
+    for (let y = 0; y < trunkHeight; y++) {
+      placeBlock(x, baseHeight + y + 1, z, 'wood');
+    }
+
+    // Create the leaves (a roughly spherical shape). They spread two blocks,
+    // as far as trees stand from the chunk edges; the random draw stays so
+    // existing worlds still generate the same trees.
+    const leafRadius = Math.floor(random() * 1) + 2;
+    const leafHeight = Math.floor(random() * 2) + 2; // 2-3 blocks tall
+    const leafStartHeight = trunkHeight - 1; // Start leaves near top of trunk
+
+    // Generate leaves in a roughly spherical pattern
+    for (let y = 0; y < leafHeight; y++) {
+      const layerRadius =
+        y === 0 || y === leafHeight - 1
+          ? Math.max(1, leafRadius - 1) // Smaller radius at top and bottom
+          : leafRadius;
+
+      for (let lx = -layerRadius; lx <= layerRadius; lx++) {
+        for (let lz = -layerRadius; lz <= layerRadius; lz++) {
+          // Skip corners to make it more rounded
+          if (lx * lx + lz * lz > layerRadius * layerRadius + 1) continue;
+
+          // Random chance to skip some leaves for a more natural look
+          if (random() > 0.8) continue;
+
+          placeBlock(
+            x + lx,
+            baseHeight + leafStartHeight + y,
+            z + lz,
+            'leaves'
+          );
+        }
+      }
+    }
+  };
+
+  // Tall narrow tree with leaf rings that shrink towards a pointed top
+  const generatePine = (x: number, z: number, baseHeight: number) => {
+    const trunkHeight = Math.floor(random() * 3) + 5; // 5-7 blocks tall
+
+    for (let y = 1; y <= trunkHeight; y++) {
+      placeBlock(x, baseHeight + y, z, 'wood');
+    }
+
+    // Alternate wide and narrow rings from the top of the trunk down
+    for (let y = 0; y < trunkHeight - 1; y++) {
+      const layerRadius = y === 0 ? 0 : Math.min(2, 1 + ((y + 1) % 2));
+
+      for (let lx = -layerRadius; lx <= layerRadius; lx++) {
+        for (let lz = -layerRadius; lz <= layerRadius; lz++) {
+          if (lx === 0 && lz === 0 && y > 0) continue; // Trunk
+          if (Math.abs(lx) + Math.abs(lz) > layerRadius + 1) continue;
+
+          placeBlock(
+            x + lx,
+            baseHeight + trunkHeight + 1 - y,
+            z + lz,
+            'leaves'
+          );
+        }
+      }
+    }
+  };
+
+  // A bare column of cactus, 1-3 blocks tall
+  const generateCactus = (x: number, z: number, baseHeight: number) => {
+    const cactusHeight = Math.floor(random() * 3) + 1;
+
+    for (let y = 1; y <= cactusHeight; y++) {
+      placeBlock(x, baseHeight + y, z, 'cactus');
+    }
+  };
+
+  // Caves are winding tunnels where two noise layers cross zero together,
+  // plus large caverns where a third layer is high
+  const isCave = (x: number, y: number, z: number) => {
+    const caveY = y * config.caveFlattening;
+    const width = config.caveTunnelWidth;
+    if (
+      Math.abs(fractalNoise3D(noise, x, caveY, z, config.caveTunnels)) <
+        width &&
+      Math.abs(
+        fractalNoise3D(
+          noise,
+          x + CAVE_LAYER_OFFSET,
+          caveY,
+          z,
+          config.caveTunnels
+        )
+      ) < width
+    ) {
+      return true;
+    }
+    return (
+      fractalNoise3D(
+        noise,
+        x,
+        caveY,
+        z + CAVE_LAYER_OFFSET,
+        config.caveCaverns
+      ) > config.caveCaverns.threshold
+    );
+  };
+
+  // Grow a vein by wandering from a random start, only replacing stone
+  const generateOreVein = (vein: OreVein) => {
+    let localX = Math.floor(random() * CHUNK_SIZE);
+    let y =
+      vein.minHeight +
+      Math.floor(random() * (vein.maxHeight - vein.minHeight + 1));
+    let localZ = Math.floor(random() * CHUNK_SIZE);
+
+    for (let i = 0; i < vein.veinSize; i++) {
+      if (
+        localX >= 0 &&
+        localX < CHUNK_SIZE &&
+        localZ >= 0 &&
+        localZ < CHUNK_SIZE &&
+        isInsideWorldHeight(y)
+      ) {
+        const index = voxelIndex(localX, y, localZ);
+        if (voxels[index] === stoneId) voxels[index] = getBlockId(vein.block);
+      }
+
+      // Veins wander one block at a time along an axis
+      const [dx, dy, dz] = NEIGHBOURS[Math.floor(random() * NEIGHBOURS.length)];
+      localX += dx;
+      y += dy;
+      localZ += dz;
+    }
+  };
+
+  const generateTree = (
+    shape: TreeShape,
+    x: number,
+    z: number,
+    baseHeight: number
+  ) => {
+    switch (shape) {
+      case 'oak':
+        return generateOak(x, z, baseHeight);
+      case 'pine':
+        return generatePine(x, z, baseHeight);
+      case 'cactus':
+        return generateCactus(x, z, baseHeight);
+    }
+  };
+
+  // Surface height and biome of each column, for placing structures; the
+  // height is null under water, where nothing is built
+  const surfaces: Array<number | null> = [];
+  const columnBiomes: string[] = [];
+
+  // Generate a more interesting terrain with different layers
+  for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+    for (let localZ = 0; localZ < CHUNK_SIZE; localZ++) {
+      const x = cx * CHUNK_SIZE + localX;
+      const z = cz * CHUNK_SIZE + localZ;
+
+      // Biome and surface height, blended with the biomes around it
+      const { biome, height, treeChance } = getBiomeColumn(
+        noise,
+        x,
+        z,
+        config,
+        random
+      );
+
+      // Determine block type for the top layer
+      let topBlockType: BlockType = biome.surface;
+
+      // Occasionally create stone outcroppings on high ground
+      if (
+        biome.stoneOutcrops &&
+        height >= config.stoneOutcropMinHeight &&
+        fractalNoise2D(noise, x, z, config.stoneOutcrops) >
+          config.stoneOutcrops.threshold
+      ) {
+        topBlockType = 'stone';
+      }
+
+      // High peaks are capped with snow
+      if (biome.snowLine !== undefined && height >= biome.snowLine) {
+        topBlockType = 'snow';
+      }
+
+      // Add top block
+      placeBlock(x, height, z, topBlockType);
+
+      // Determine dirt layer depth
+      const dirtNoise = fractalNoise2D(noise, x, z, config.dirtDepth);
+      const dirtDepth =
+        topBlockType === 'stone'
+          ? 1 // Less dirt under stone
+          : Math.min(
+              config.maxDirtDepth,
+              config.minDirtDepth +
+                Math.floor(
+                  ((dirtNoise + 1) / 2) *
+                    (config.maxDirtDepth - config.minDirtDepth + 1)
+                )
+            );
+
+      // Add the biome's subsurface (usually dirt) below the top layer
+      for (let y = 1; y <= dirtDepth; y++) {
+        placeBlock(
+          x,
+          height - y,
+          z,
+          topBlockType === 'stone' ? 'dirt' : biome.subsurface
+        );
+      }
+
+      // Add stone below dirt down to bedrock level
+      const bedrockLevel = config.bedrockLevel;
+      for (let y = dirtDepth + 1; y < height - bedrockLevel; y++) {
+        // Occasionally add dirt pockets in stone
+        const blockType =
+          fractalNoise3D(noise, x, height - y, z, config.dirtPockets) >
+          config.dirtPockets.threshold
+            ? 'dirt'
+            : 'stone';
+
+        placeBlock(x, height - y, z, blockType);
+      }
+
+      // Add bedrock at the bottom
+      placeBlock(x, bedrockLevel, z, 'bedrock');
+
+      // Carve caves through the stone, leaving the soil above and the
+      // bedrock below untouched
+      for (let y = bedrockLevel + 1; y < height - dirtDepth; y++) {
+        if (isInsideWorldHeight(y) && isCave(x, y, z)) {
+          voxels[voxelIndex(localX, y, localZ)] = AIR;
+        }
+      }
+
+      // Low ground is flooded up to sea level
+      for (let y = height + 1; y <= config.seaLevel; y++) {
+        placeBlock(x, y, z, 'water');
+      }
+
+      surfaces[localZ * CHUNK_SIZE + localX] =
+        height >= config.seaLevel ? height : null;
+      columnBiomes[localZ * CHUNK_SIZE + localX] = biome.name;
+
+      // Randomly generate the biome's trees on its own surface (kept away
+      // from chunk edges so that leaves never spill into a neighbouring
+      // chunk)
+      if (
+        biome.tree &&
+        topBlockType === biome.surface &&
+        localX > 1 &&
+        localX < CHUNK_SIZE - 2 &&
+        localZ > 1 &&
+        localZ < CHUNK_SIZE - 2 &&
+        random() < treeChance
+      ) {
+        generateTree(biome.tree, x, z, height);
+      }
+    }
+  }
+
+  // Place structures from templates on columns of their biomes. Like
+  // trees, they must fit inside this chunk, and they skip spots already
+  // taken by trees or other structures.
+  const getSurface = (x: number, z: number) =>
+    surfaces[worldToLocal(z) * CHUNK_SIZE + worldToLocal(x)];
+  for (let localZ = 0; localZ < CHUNK_SIZE; localZ++) {
+    for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+      const structure = pickStructure(
+        columnBiomes[localZ * CHUNK_SIZE + localX],
+        random
+      );
+      if (!structure) continue;
+
+      const rotation = Math.floor(random() * 4) as StructureRotation;
+      const mirror = random() < 0.5;
+      const [width, depth] = getFootprint(structure, rotation);
+      if (localX + width > CHUNK_SIZE || localZ + depth > CHUNK_SIZE) {
+        continue;
+      }
+
+      const x = cx * CHUNK_SIZE + localX;
+      const z = cz * CHUNK_SIZE + localZ;
+      const base = findStructureBase(structure, rotation, x, z, getSurface);
+      if (base === null) continue;
+
+      const placement = { structure, x, y: base, z, rotation, mirror };
+      let blocked = false;
+      forEachStructureBlock(placement, (bx, by, bz) => {
+        if (
+          isInsideWorldHeight(by) &&
+          by > getSurface(bx, bz)! &&
+          voxels[voxelIndex(worldToLocal(bx), by, worldToLocal(bz))] !== AIR
+        ) {
+          blocked = true;
+        }
+      });
+      if (blocked) continue;
+
+      forEachStructureBlock(placement, (bx, by, bz, id) => {
+        if (!isInsideWorldHeight(by)) return;
+        voxels[voxelIndex(worldToLocal(bx), by, worldToLocal(bz))] = id;
+      });
+    }
+  }
+
+  // Grass doesn't grow under the trunks and floors built on it
+  const grassId = getBlockId('grass');
+  surfaces.forEach((height, index) => {
+    if (height === null || !isInsideWorldHeight(height + 1)) return;
+    const localX = index % CHUNK_SIZE;
+    const localZ = Math.floor(index / CHUNK_SIZE);
+    const ground = voxelIndex(localX, height, localZ);
+    const above = voxels[voxelIndex(localX, height + 1, localZ)];
+    if (
+      voxels[ground] === grassId &&
+      getBlockById(above)?.transparent === false
+    ) {
+      voxels[ground] = getBlockId('dirt');
+    }
+  });
+
+  // Scatter ore veins through the remaining stone
+  config.ores.forEach((vein) => {
+    for (let i = 0; i < vein.veinsPerChunk; i++) {
+      generateOreVein(vein);
+    }
+  });
+
+  return voxels;
+};
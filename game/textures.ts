@@ -0,0 +1,179 @@
+import { loadAsync } from 'expo-three';
+import {
+  IUniform,
+  Material,
+  NearestFilter,
+  SRGBColorSpace,
+  Texture,
+} from 'three';
+
+// A set of block textures packed into one bundled image
+export interface ResourcePack {
+  id: string;
+  name: string;
+  // Bundled atlas image, as returned by require()
+  atlas: number;
+  // Size of the atlas grid, in tiles
+  columns: number;
+  rows: number;
+  // Column and row of each named tile, counted from the top left
+  tiles: Record<string, [number, number]>;
+}
+
+// Tile layout shared by the bundled packs
+const ATLAS_TILES: Record<string, [number, number]> = {
+  grass_top: [0, 0],
+  grass_side: [1, 0],
+  dirt: [2, 0],
+  stone: [3, 0],
+  bedrock: [4, 0],
+  wood_side: [5, 0],
+  wood_top: [6, 0],
+  leaves: [7, 0],
+  sapling: [0, 1],
+  planks: [1, 1],
+  torch: [2, 1],
+  water: [3, 1],
+  sand: [0, 2],
+  snow: [1, 2],
+  cactus_side: [2, 2],
+  cactus_top: [3, 2],
+  coal_ore: [4, 2],
+  iron_ore: [5, 2],
+  gold_ore: [6, 2],
+  diamond_ore: [7, 2],
+  crack_0: [0, 3],
+  crack_1: [1, 3],
+  crack_2: [2, 3],
+  crack_3: [3, 3],
+  crack_4: [4, 3],
+  crack_5: [5, 3],
+  crack_6: [6, 3],
+  crack_7: [7, 3],
+};
+
+// Tiles crack_0 to crack_N drawn over a block as it is being broken
+export const CRACK_STAGES = 8;
+
+export const RESOURCE_PACKS: ResourcePack[] = [
+  {
+    id: 'default',
+    name: 'Default',
+    atlas: require('../assets/textures/default/atlas.png'),
+    columns: 8,
+    rows: 4,
+    tiles: ATLAS_TILES,
+  },
+  {
+    id: 'smooth',
+    name: 'Smooth',
+    atlas: require('../assets/textures/smooth/atlas.png'),
+    columns: 8,
+    rows: 4,
+    tiles: ATLAS_TILES,
+  },
+];
+
+export const DEFAULT_RESOURCE_PACK = RESOURCE_PACKS[0].id;
+
+export const getResourcePack = (id: string) =>
+  RESOURCE_PACKS.find((pack) => pack.id === id) ?? RESOURCE_PACKS[0];
+
+// Offset and size of a tile in texture coordinates: [u, v, width, height]
+export type TileRect = [number, number, number, number];
+
+export interface TextureAtlas {
+  pack: ResourcePack;
+  texture: Texture;
+  // Null when the pack has no tile with that name
+  getTile: (name: string) => TileRect | null;
+}
+
+// Load a pack's atlas with crisp, unfiltered pixels
+export const loadTextureAtlas = async (
+  pack: ResourcePack
+): Promise<TextureAtlas> => {
+  const texture: Texture = await loadAsync(pack.atlas);
+  texture.magFilter = NearestFilter;
+  texture.minFilter = NearestFilter;
+  texture.generateMipmaps = false;
+  texture.colorSpace = SRGBColorSpace;
+  texture.needsUpdate = true;
+
+  const tileWidth = 1 / pack.columns;
+  const tileHeight = 1 / pack.rows;
+
+  return {
+    pack,
+    texture,
+    getTile: (name) => {
+      const tile = pack.tiles[name];
+      if (!tile) return null;
+      // Texture coordinates start at the bottom of the image
+      const [column, row] = tile;
+      return [
+        column * tileWidth,
+        1 - (row + 1) * tileHeight,
+        tileWidth,
+        tileHeight,
+      ];
+    },
+  };
+};
+
+// Shade a chunk material the way the mesher lays out its geometry (see
+// ChunkGeometry). The map repeats one atlas tile per block: each vertex has a
+// uv counted in blocks and the tile it shows, so faces merged across several
+// blocks still show one texture per block. Sky brightness scales the color
+// before the scene lights, which follow the sun and moon. Block light is added
+// on top as emission, so torches glow as brightly at night as by day; it only
+// makes up what daylight times the sky brightness doesn't already give.
+// daylight is shared by every chunk material and updated with the sky.
+export const applyChunkShader = (
+  material: Material,
+  daylight: IUniform<number>
+) => {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.daylight = daylight;
+    shader.vertexShader =
+      'attribute vec4 uvTile;\nattribute vec2 light;\n' +
+      'varying vec4 vUvTile;\nvarying vec2 vLight;\n' +
+      shader.vertexShader
+        .replace(
+          '#include <uv_vertex>',
+          '#include <uv_vertex>\nvUvTile = uvTile;'
+        )
+        .replace(
+          '#include <color_vertex>',
+          '#include <color_vertex>\nvLight = light;'
+        );
+    shader.fragmentShader =
+      'uniform float daylight;\nvarying vec4 vUvTile;\nvarying vec2 vLight;\n' +
+      shader.fragmentShader
+        .replace(
+          '#include <map_fragment>',
+          [
+            '#ifdef USE_MAP',
+            // Faces without a texture have a zero-sized tile
+            'if ( vUvTile.z > 0.0 ) {',
+            // Stay clear of the tile edges so neighbouring tiles never bleed in
+            '  vec2 tileUv = clamp( fract( vMapUv ), 0.001, 0.999 );',
+            '  diffuseColor *= texture2D( map, vUvTile.xy + tileUv * vUvTile.zw );',
+            '}',
+            '#endif',
+          ].join('\n')
+        )
+        .replace(
+          '#include <color_fragment>',
+          [
+            '#include <color_fragment>',
+            'vec3 blockLightColor = diffuseColor.rgb * max( 0.0, vLight.y - vLight.x * daylight );',
+            'diffuseColor.rgb *= vLight.x;',
+          ].join('\n')
+        )
+        .replace(
+          '#include <emissivemap_fragment>',
+          '#include <emissivemap_fragment>\ntotalEmissiveRadiance += blockLightColor;'
+        );
+  };
+};
@@ -0,0 +1,65 @@
+import { CHUNK_SIZE, CHUNK_VOLUME, WORLD_HEIGHT, WORLD_MIN_Y } from './chunks';
+import { VoxelStore, createVoxelStore } from './voxels';
+
+const STONE = 4;
+const TOP_Y = WORLD_MIN_Y + WORLD_HEIGHT - 1;
+
+const collect = (
+  store: VoxelStore,
+  min: [number, number, number],
+  max: [number, number, number]
+) => {
+  const blocks: number[][] = [];
+  store.forEachInRegion(
+    { x: min[0], y: min[1], z: min[2] },
+    { x: max[0], y: max[1], z: max[2] },
+    (id, x, y, z) => blocks.push([id, x, y, z])
+  );
+  return blocks;
+};
+
+describe('createVoxelStore', () => {
+  it('reads back blocks set in loaded chunks only', () => {
+    const store = createVoxelStore();
+    store.setChunk(0, 0, new Uint8Array(CHUNK_VOLUME));
+    expect(store.setBlock(3, 2, 5, STONE)).toBe(true);
+    expect(store.getBlock(3, 2, 5)).toBe(STONE);
+    expect(store.setBlock(CHUNK_SIZE, 2, 5, STONE)).toBe(false);
+    expect(store.setBlock(3, TOP_Y + 1, 5, STONE)).toBe(false);
+  });
+
+  describe('forEachInRegion', () => {
+    const store = createVoxelStore();
+    store.setChunk(0, 0, new Uint8Array(CHUNK_VOLUME));
+    store.setChunk(-1, 0, new Uint8Array(CHUNK_VOLUME));
+    store.setBlock(2, 4, 3, STONE);
+    store.setBlock(-1, 4, 3, STONE);
+    store.setBlock(0, WORLD_MIN_Y, 0, STONE);
+    store.setBlock(0, TOP_Y, 0, STONE);
+
+    it('visits non-air blocks in cells the box overlaps', () => {
+      expect(collect(store, [-0.6, 3.6, 2.6], [2.4, 4.4, 3.4])).toEqual([
+        [STONE, -1, 4, 3],
+        [STONE, 2, 4, 3],
+      ]);
+      expect(collect(store, [2.6, 3.6, 2.6], [5, 5, 5])).toEqual([]);
+    });
+
+    it('stays inside the world height', () => {
+      expect(
+        collect(store, [0, WORLD_MIN_Y - 10, 0], [0, TOP_Y + 10, 0])
+      ).toEqual([
+        [STONE, 0, WORLD_MIN_Y, 0],
+        [STONE, 0, TOP_Y, 0],
+      ]);
+    });
+
+    it('skips chunks that are not loaded', () => {
+      const blocks = collect(store, [-40, 4, 3], [40, 4, 3]);
+      expect(blocks).toEqual([
+        [STONE, -1, 4, 3],
+        [STONE, 2, 4, 3],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { AIR } from './blocks';
+import {
+  CHUNK_VOLUME,
+  WORLD_HEIGHT,
+  WORLD_MIN_Y,
+  isInsideWorldHeight,
+  voxelIndex,
+  worldToChunk,
+  worldToLocal,
+} from './chunks';
+
+// A block position in world coordinates
+export interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Offsets to the six blocks sharing a face with a block
+export const NEIGHBOURS = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+];
+
+// Block ids of every loaded chunk, addressed by integer world coordinates
+export interface VoxelStore {
+  // Block id at a position, or air outside loaded chunks and the world height
+  getBlock: (x: number, y: number, z: number) => number;
+  // Returns false when the position isn't inside a loaded chunk
+  setBlock: (x: number, y: number, z: number, id: number) => boolean;
+  // Visit every non-air block whose cell overlaps the box from min to max,
+  // skipping chunks that aren't loaded
+  forEachInRegion: (
+    min: Point,
+    max: Point,
+    callback: (id: number, x: number, y: number, z: number) => void
+  ) => void;
+  getChunk: (cx: number, cz: number) => Uint8Array | undefined;
+  setChunk: (cx: number, cz: number, voxels: Uint8Array) => void;
+  deleteChunk: (cx: number, cz: number) => void;
+}
+
+// Pack chunk coordinates into one number so lookups don't build strings
+const CHUNK_KEY_OFFSET = 0x8000;
+export const packChunkKey = (cx: number, cz: number) =>
+  (cx + CHUNK_KEY_OFFSET) * 0x10000 + (cz + CHUNK_KEY_OFFSET);
+
+export const createVoxelStore = (): VoxelStore => {
+  const chunks = new Map<number, Uint8Array>();
+
+  const getChunk = (cx: number, cz: number) => chunks.get(packChunkKey(cx, cz));
+
+  const getBlock = (x: number, y: number, z: number) => {
+    if (!isInsideWorldHeight(Math.round(y))) return AIR;
+    const voxels = getChunk(worldToChunk(x), worldToChunk(z));
+    if (!voxels) return AIR;
+    return voxels[voxelIndex(worldToLocal(x), Math.round(y), worldToLocal(z))];
+  };
+
+  const setBlock = (x: number, y: number, z: number, id: number) => {
+    if (!isInsideWorldHeight(Math.round(y))) return false;
+    const voxels = getChunk(worldToChunk(x), worldToChunk(z));
+    if (!voxels) return false;
+    voxels[voxelIndex(worldToLocal(x), Math.round(y), worldToLocal(z))] = id;
+    return true;
+  };
+
+  const forEachInRegion: VoxelStore['forEachInRegion'] = (
+    min,
+    max,
+    callback
+  ) => {
+    // Blocks are centered on integer coordinates, so rounding finds the cell
+    const minY = Math.max(WORLD_MIN_Y, Math.round(min.y));
+    const maxY = Math.min(WORLD_MIN_Y + WORLD_HEIGHT - 1, Math.round(max.y));
+
+    for (let x = Math.round(min.x); x <= Math.round(max.x); x++) {
+      for (let z = Math.round(min.z); z <= Math.round(max.z); z++) {
+        const voxels = getChunk(worldToChunk(x), worldToChunk(z));
+        if (!voxels) continue;
+        const localX = worldToLocal(x);
+        const localZ = worldToLocal(z);
+
+        for (let y = minY; y <= maxY; y++) {
+          const id = voxels[voxelIndex(localX, y, localZ)];
+          if (id !== AIR) callback(id, x, y, z);
+        }
+      }
+    }
+  };
+
+  const setChunk = (cx: number, cz: number, voxels: Uint8Array) => {
+    if (voxels.length !== CHUNK_VOLUME) {
+      throw new Error(`Chunk ${cx},${cz} has ${voxels.length} voxels`);
+    }
+    chunks.set(packChunkKey(cx, cz), voxels);
+  };
+
+  const deleteChunk = (cx: number, cz: number) => {
+    chunks.delete(packChunkKey(cx, cz));
+  };
+
+  return {
+    getBlock,
+    setBlock,
+    forEachInRegion,
+    getChunk,
+    setChunk,
+    deleteChunk,
+  };
+};
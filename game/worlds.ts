@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { GameMode } from './modes';
+import { adoptLegacySave, copyWorldSave, deleteWorldSave } from './save';
+
+const WORLDS_KEY = 'vibecraft:worlds';
+
+export interface WorldInfo {
+  id: string;
+  name: string;
+  seed: string;
+  // Missing for worlds created before game modes existed
+  gameMode?: GameMode;
+  createdAt: number;
+  lastPlayedAt: number | null;
+  // Local image of the world as it looked when last exited
+  thumbnail?: string;
+}
+
+const createWorldId = () =>
+  `${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+const thumbnailUri = (worldId: string) =>
+  FileSystem.documentDirectory
+    ? `${FileSystem.documentDirectory}thumbnails/${worldId}.jpg`
+    : null;
+
+const writeWorlds = (worlds: WorldInfo[]) =>
+  AsyncStorage.setItem(WORLDS_KEY, JSON.stringify(worlds));
+
+// Turn the single save written by older versions into a named world
+const migrateLegacySave = async (): Promise<WorldInfo[]> => {
+  const id = createWorldId();
+  const legacy = await adoptLegacySave(id);
+  if (!legacy) return [];
+
+  const world: WorldInfo = {
+    id,
+    name: 'My World',
+    seed: legacy.seed,
+    createdAt: legacy.savedAt,
+    lastPlayedAt: legacy.savedAt,
+  };
+
+  await writeWorlds([world]);
+  return [world];
+};
+
+// All worlds, most recently played first
+export const listWorlds = async (): Promise<WorldInfo[]> => {
+  const json = await AsyncStorage.getItem(WORLDS_KEY);
+  const worlds: WorldInfo[] = json
+    ? JSON.parse(json)
+    : await migrateLegacySave();
+
+  return worlds.sort(
+    (a, b) => (b.lastPlayedAt ?? b.createdAt) - (a.lastPlayedAt ?? a.createdAt)
+  );
+};
+
+const updateWorld = async (
+  worldId: string,
+  update: (world: WorldInfo) => WorldInfo
+) => {
+  const worlds = await listWorlds();
+  await writeWorlds(
+    worlds.map((world) => (world.id === worldId ? update(world) : world))
+  );
+};
+
+export const createWorld = async (
+  name: string,
+  seed: string,
+  gameMode: GameMode
+) => {
+  const world: WorldInfo = {
+    id: createWorldId(),
+    name,
+    seed,
+    gameMode,
+    createdAt: Date.now(),
+    lastPlayedAt: null,
+  };
+
+  await writeWorlds([...(await listWorlds()), world]);
+  return world;
+};
+
+export const renameWorld = (worldId: string, name: string) =>
+  updateWorld(worldId, (world) => ({ ...world, name }));
+
+export const markWorldPlayed = (worldId: string) =>
+  updateWorld(worldId, (world) => ({ ...world, lastPlayedAt: Date.now() }));
+
+export const duplicateWorld = async (worldId: string) => {
+  const worlds = await listWorlds();
+  const source = worlds.find((world) => world.id === worldId);
+  if (!source) return null;
+
+  const copy: WorldInfo = {
+    ...source,
+    id: createWorldId(),
+    name: `${source.name} (copy)`,
+    createdAt: Date.now(),
+    thumbnail: undefined,
+  };
+
+  await copyWorldSave(source.id, copy.id);
+
+  const target = thumbnailUri(copy.id);
+  if (source.thumbnail && target) {
+    try {
+      await FileSystem.copyAsync({ from: source.thumbnail, to: target });
+      copy.thumbnail = target;
+    } catch (error) {
+      console.warn('Failed to copy world thumbnail:', error);
+    }
+  }
+
+  await writeWorlds([...worlds, copy]);
+  return copy;
+};
+
+export const deleteWorld = async (worldId: string) => {
+  const worlds = await listWorlds();
+  const world = worlds.find((entry) => entry.id === worldId);
+
+  await writeWorlds(worlds.filter((entry) => entry.id !== worldId));
+  await deleteWorldSave(worldId);
+
+  if (world?.thumbnail && world.thumbnail === thumbnailUri(worldId)) {
+    await FileSystem.deleteAsync(world.thumbnail, { idempotent: true });
+  }
+};
+
+// Keep a snapshot of the world (e.g. from GLView.takeSnapshotAsync) as its thumbnail
+export const setWorldThumbnail = async (
+  worldId: string,
+  snapshotUri: string
+) => {
+  const target = thumbnailUri(worldId);
+  let thumbnail = snapshotUri;
+
+  // Snapshots land in the cache directory, which the OS may clear
+  if (target) {
+    try {
+      await FileSystem.makeDirectoryAsync(
+        `${FileSystem.documentDirectory}thumbnails`,
+        {
+          intermediates: true,
+        }
+      );
+      await FileSystem.copyAsync({ from: snapshotUri, to: target });
+      thumbnail = target;
+    } catch (error) {
+      console.warn('Failed to store world thumbnail:', error);
+    }
+  }
+
+  await updateWorld(worldId, (world) => ({ ...world, thumbnail }));
+};